@@ -56,7 +56,7 @@ export async function handleDatabaseMerge(sourcePath?: string): Promise<void> {
 
             const { DatabaseManager } = await import("../database/class");
             const backupManager = new DatabaseManager();
-            backupManager.backup(backupPath, { compress: true, includeData: true });
+            await backupManager.backup(backupPath, { compress: true, includeData: true });
             console.log("✅ Backup created successfully!");
         }
 
@@ -150,7 +150,7 @@ export async function handleDatabaseBackup(backupPath?: string): Promise<void> {
         const dbManager = new DatabaseManager();
 
         const startTime = Date.now();
-        dbManager.backup(backupPath, {
+        await dbManager.backup(backupPath, {
             compress: shouldCompress,
             includeData: includeData
         });
@@ -213,7 +213,7 @@ export async function handleDatabaseRestore(backupPath?: string): Promise<void>
 
                 const { DatabaseManager } = await import("../database/class");
                 const backupManager = new DatabaseManager();
-                backupManager.backup(preRestoreBackupPath, { compress: true, includeData: true });
+                await backupManager.backup(preRestoreBackupPath, { compress: true, includeData: true });
                 console.log("✅ Pre-restore backup created!");
             }
         }
@@ -378,11 +378,11 @@ async function performDatabaseMigration(
     terminal.cyan('📦 Creating temporary backup of existing data...\n');
 
     try {
-        dbManager.backup(tempBackupPath, { compress: true, includeData: true });
+        await dbManager.backup(tempBackupPath, { compress: true, includeData: true });
 
         if (permanentBackupPath) {
             terminal.cyan(`📦 Creating permanent backup: ${permanentBackupPath}\n`);
-            dbManager.backup(permanentBackupPath, { compress: true, includeData: true });
+            await dbManager.backup(permanentBackupPath, { compress: true, includeData: true });
         }
 
         terminal.green('✅ Backup created successfully\n');
@@ -0,0 +1,253 @@
+"server only";
+
+import { Database as _BunDB } from "bun:sqlite";
+import { createHash } from "crypto";
+import { createWriteStream, existsSync, renameSync, statSync, unlinkSync } from "fs";
+import { basename } from "path";
+import { pipeline } from "stream/promises";
+import { createGzip } from "zlib";
+import { MIGRATIONS_TABLE } from "./migrator";
+import type { UserInterface } from "./types";
+
+/**
+ * Options of `DatabaseManager.backupOnline()`
+ *
+ * @property compress - Gzip the pages while they are written, adding `.gz` to the path (default: false)
+ * @property pagesPerStep - Database pages copied per step (default: 256)
+ * @property stepDelay - Pause (ms) between steps, to leave more room to a busy server (default: 0)
+ * @property snapshotTimeout - Time (ms) spent waiting for the WAL to empty before the snapshot is copied in memory instead (default: 5000)
+ * @property ui - Receives the progress after every step
+ * @property manifest - Write `<backup>.manifest.json` next to the backup (default: true)
+ */
+export interface OnlineBackupOptions {
+  compress?: boolean;
+  pagesPerStep?: number;
+  stepDelay?: number;
+  snapshotTimeout?: number;
+  ui?: Pick<UserInterface, "progress" | "stopProgress">;
+  manifest?: boolean;
+}
+
+/**
+ * Description of a backup, written as JSON next to it
+ *
+ * @property schemaVersion - Latest migration applied through the `_migrations` ledger, null without migrations
+ * @property userVersion - SQLite `PRAGMA user_version`
+ * @property tables - Row count of every table at the time of the snapshot
+ * @property databaseBytes - Size of the database image, before compression
+ * @property fileBytes - Size of the backup file
+ * @property sha256 - Hex SHA-256 of the backup file, as written (compressed or not)
+ */
+export interface BackupManifest {
+  formatVersion: 1;
+  createdAt: string;
+  source: string;
+  file: string;
+  compressed: boolean;
+  pageSize: number;
+  pageCount: number;
+  schemaVersion: string | null;
+  userVersion: number;
+  tables: Record<string, number>;
+  databaseBytes: number;
+  fileBytes: number;
+  sha256: string;
+}
+
+// Consistent view of the database pages, held until released
+interface Snapshot {
+  connection: _BunDB;
+  pageSize: number;
+  pageCount: number;
+  read(offset: number, length: number): Promise<Uint8Array>;
+  release(): void;
+}
+
+/**
+ * Copies a database to `backupPath` step by step from a consistent snapshot
+ *
+ * bun:sqlite does not expose SQLite's online backup API (`sqlite3_backup_*`), and its SQLite is
+ * built without `sqlite_dbpage`, so pages are read from the database file itself. In WAL mode the
+ * WAL is checkpointed and a read transaction opened on a dedicated connection while the WAL is
+ * empty: SQLite then serves that transaction from the database file alone and holds every
+ * checkpoint back, so the file stays frozen while writers keep appending to the WAL (which grows
+ * until the copy ends). Writers that never let the WAL empty within `snapshotTimeout` get the
+ * fallback: the read transaction serializes the database in memory and ends right away, and the
+ * copy is made from that image. Other journal modes hold a read transaction, which delays writers
+ * until the copy ends; in-memory databases are serialized first.
+ * Pages are read `pagesPerStep` at a time, streamed through gzip (optional) and the checksum to
+ * disk, and the event loop runs between steps. The backup is written to a temporary file and
+ * renamed once complete.
+ *
+ * @returns The manifest of the backup
+ */
+export async function onlineBackup(db: _BunDB, backupPath: string, options: OnlineBackupOptions = {}): Promise<BackupManifest> {
+  const { compress = false, pagesPerStep = 256, stepDelay = 0, snapshotTimeout = 5000, ui, manifest: writeManifest = true } = options;
+  if (!Number.isInteger(pagesPerStep) || pagesPerStep < 1) {
+    throw new Error("pagesPerStep must be a positive integer");
+  }
+  if (!(snapshotTimeout >= 0)) {
+    throw new Error("snapshotTimeout must be a non-negative number of milliseconds");
+  }
+
+  const finalPath = compress && !backupPath.endsWith(".gz") ? `${backupPath}.gz` : backupPath;
+  const tempPath = `${finalPath}.${Date.now()}.tmp`;
+  const title = `Backing up ${basename(finalPath)}`;
+  const snapshot = await openSnapshot(db, snapshotTimeout);
+
+  try {
+    const { connection, pageSize, pageCount } = snapshot;
+    const tables = countRows(connection);
+    const schemaVersion = latestMigration(connection);
+    const { user_version } = connection.prepare("PRAGMA user_version").get() as { user_version: number };
+
+    const hash = createHash("sha256");
+    let fileBytes = 0;
+
+    async function* pages(): AsyncGenerator<Uint8Array> {
+      for (let first = 0; first < pageCount; first += pagesPerStep) {
+        const count = Math.min(pagesPerStep, pageCount - first);
+        const chunk = await snapshot.read(first * pageSize, count * pageSize);
+        // Like VACUUM INTO, leave the copy in rollback-journal mode so it opens without WAL files
+        if (first === 0 && chunk[18] === 2) chunk[18] = chunk[19] = 1;
+        yield chunk;
+        ui?.progress(title, Math.floor((first + count) / pageCount * 100));
+        if (stepDelay > 0) await Bun.sleep(stepDelay);
+      }
+    }
+    async function* checksum(source: AsyncIterable<Uint8Array>): AsyncGenerator<Uint8Array> {
+      for await (const chunk of source) {
+        hash.update(chunk);
+        fileBytes += chunk.length;
+        yield chunk;
+      }
+    }
+
+    try {
+      if (compress) {
+        await pipeline(pages, createGzip(), checksum, createWriteStream(tempPath));
+      } else {
+        await pipeline(pages, checksum, createWriteStream(tempPath));
+      }
+      renameSync(tempPath, finalPath);
+    } finally {
+      if (existsSync(tempPath)) unlinkSync(tempPath);
+    }
+    if (pageCount === 0) ui?.progress(title, 100);
+
+    const manifest: BackupManifest = {
+      formatVersion: 1,
+      createdAt: new Date().toISOString(),
+      source: db.filename,
+      file: basename(finalPath),
+      compressed: compress,
+      pageSize,
+      pageCount,
+      schemaVersion,
+      userVersion: Number(user_version),
+      tables,
+      databaseBytes: pageSize * pageCount,
+      fileBytes,
+      sha256: hash.digest("hex"),
+    };
+    if (writeManifest) {
+      await Bun.write(`${finalPath}.manifest.json`, JSON.stringify(manifest, null, 2));
+    }
+    return manifest;
+  } finally {
+    snapshot.release();
+    ui?.stopProgress();
+  }
+}
+
+async function openSnapshot(db: _BunDB, snapshotTimeout: number): Promise<Snapshot> {
+  const path = db.filename;
+  if (!path || path === ":memory:") {
+    return imageSnapshot(db.serialize());
+  }
+
+  const connection = new _BunDB(path, { readwrite: true, create: false });
+  try {
+    connection.exec("PRAGMA busy_timeout = 5000;");
+    const { journal_mode } = connection.prepare("PRAGMA journal_mode").get() as { journal_mode: string };
+    const wal = journal_mode.toLowerCase() === "wal";
+    const deadline = Date.now() + snapshotTimeout;
+
+    for (let attempt = 1; ; attempt++) {
+      if (wal) connection.prepare("PRAGMA wal_checkpoint(TRUNCATE)").get();
+      connection.exec("BEGIN");
+      connection.prepare("SELECT COUNT(*) FROM sqlite_master").get();
+      // An empty WAL when the read started means the transaction reads the database file only
+      if (!wal || walSize(path) === 0) break;
+
+      if (Date.now() >= deadline) {
+        // The read transaction sees a consistent state, WAL frames included
+        const image = connection.serialize();
+        connection.exec("COMMIT");
+        const snapshot = imageSnapshot(image);
+        connection.close(true);
+        return snapshot;
+      }
+      connection.exec("COMMIT");
+      await Bun.sleep(Math.min(attempt * 10, 100));
+    }
+
+    const { page_size: pageSize } = connection.prepare("PRAGMA page_size").get() as { page_size: number };
+    const { page_count: pageCount } = connection.prepare("PRAGMA page_count").get() as { page_count: number };
+    const file = Bun.file(path);
+    return {
+      connection,
+      pageSize,
+      pageCount,
+      read: async (offset, length) => new Uint8Array(await file.slice(offset, offset + length).arrayBuffer()),
+      release: () => {
+        if (connection.inTransaction) connection.exec("COMMIT");
+        // Also finalizes the statements, which would otherwise keep the connection open and its locks held
+        connection.close(true);
+      },
+    };
+  } catch (error) {
+    if (connection.inTransaction) connection.exec("COMMIT");
+    connection.close(true);
+    throw error;
+  }
+}
+
+// Snapshot of a serialized database, opened in memory so the manifest counts the same rows
+function imageSnapshot(image: Uint8Array): Snapshot {
+  // A WAL-mode header would make the in-memory copy look for a WAL file
+  if (image[18] === 2) image[18] = image[19] = 1;
+  const connection = _BunDB.deserialize(image);
+  const { page_size: pageSize } = connection.prepare("PRAGMA page_size").get() as { page_size: number };
+  return {
+    connection,
+    pageSize,
+    pageCount: image.length / pageSize,
+    read: async (offset, length) => image.subarray(offset, offset + length),
+    release: () => connection.close(true),
+  };
+}
+
+function walSize(path: string): number {
+  return existsSync(`${path}-wal`) ? statSync(`${path}-wal`).size : 0;
+}
+
+// Full-text indexes are left out, their rows are counted in their content tables
+function countRows(connection: _BunDB): Record<string, number> {
+  const tables = connection.prepare(
+    "SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%' " +
+    "AND name NOT IN (SELECT name FROM pragma_table_list WHERE type IN ('virtual', 'shadow')) ORDER BY name"
+  ).all() as { name: string }[];
+
+  return Object.fromEntries(tables.map(({ name }) => {
+    const { count } = connection.prepare(`SELECT COUNT(*) AS count FROM "${name.replace(/"/g, '""')}"`).get() as { count: number };
+    return [name, Number(count)];
+  }));
+}
+
+function latestMigration(connection: _BunDB): string | null {
+  const ledger = connection.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(MIGRATIONS_TABLE);
+  if (!ledger) return null;
+  const { id } = connection.prepare(`SELECT MAX(id) AS id FROM ${MIGRATIONS_TABLE}`).get() as { id: string | null };
+  return id;
+}
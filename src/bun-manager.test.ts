@@ -64,6 +64,8 @@ test('BunSQLiteManager Basic Operations', async () => {
             unlinkSync(testDbPath);
             unlinkSync(backupPath);
             unlinkSync(compressedBackupPath);
+            unlinkSync(`${backupPath}.manifest.json`);
+            unlinkSync(`${compressedBackupPath}.manifest.json`);
         } catch {
             // Files might not exist, ignore
         }
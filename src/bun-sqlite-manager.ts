@@ -10,6 +10,7 @@ import type {
 } from './types.js';
 import { Database } from 'bun:sqlite';
 import { dirname } from 'path';
+import { onlineBackup } from './backup.js';
 
 /**
  * Bun-optimized SQLite database manager implementation
@@ -68,16 +69,8 @@ export class BunSQLiteManager implements DatabaseManager {
                 // Ignore directory creation errors
             }
 
-            if (options.compress) {
-                // Read database and compress with Bun
-                const backupData = await Bun.file(this.config!.databasePath).arrayBuffer();
-                const compressed = Bun.gzipSync(new Uint8Array(backupData));
-                await Bun.write(backupPath, compressed);
-            } else {
-                // Copy database directly using Bun's file API
-                const dbContent = await Bun.file(this.config!.databasePath).arrayBuffer();
-                await Bun.write(backupPath, dbContent);
-            }
+            // Copied step by step from a consistent snapshot, without blocking writers in WAL mode
+            await onlineBackup(this.db!, backupPath, { compress: options.compress, ui: options.ui });
 
         } catch (error) {
             throw new Error(`Backup failed: ${error}`);
@@ -262,11 +255,12 @@ export class BunSQLiteManager implements DatabaseManager {
                     this.db!.exec(`DELETE FROM ${tableName}`);
                 }
 
-                // Get all data from source table
-                const sourceData = sourceDb.query(`SELECT * FROM ${tableName}`).all();
-
-                if (sourceData.length > 0) {
-                    await this.insertDataBatch(tableName, sourceData);
+                // Stream source rows instead of loading the whole table
+                const sourceRows = sourceDb.prepare(`SELECT * FROM ${tableName}`);
+                try {
+                    this.insertRows(tableName, sourceRows.iterate() as IterableIterator<Record<string, unknown>>);
+                } finally {
+                    sourceRows.finalize();
                 }
             }
         } finally {
@@ -336,30 +330,29 @@ export class BunSQLiteManager implements DatabaseManager {
         return analysis;
     }
 
-    // Optimized batch insert for Bun
-    private async insertDataBatch(tableName: string, rows: any[]): Promise<void> {
-        if (rows.length === 0) return;
-
-        // Get column names from first row
-        const columns = Object.keys(rows[0]);
-        const placeholders = columns.map(() => '?').join(', ');
-        const columnNames = columns.join(', ');
+    // Inserts streamed rows in a single transaction; the statement is prepared from the first row
+    private insertRows(tableName: string, rows: Iterable<Record<string, unknown>>): void {
+        let columns: string[] | undefined;
+        let insertQuery: ReturnType<Database['prepare']> | undefined;
 
-        const insertQuery = this.db!.query(
-            `INSERT INTO ${tableName} (${columnNames}) VALUES (${placeholders})`
-        );
-
-        // Use transaction for better performance
         this.db!.exec('BEGIN TRANSACTION');
         try {
             for (const row of rows) {
-                const values = columns.map(col => row[col]);
-                insertQuery.run(...values);
+                if (!insertQuery) {
+                    columns = Object.keys(row);
+                    const placeholders = columns.map(() => '?').join(', ');
+                    insertQuery = this.db!.prepare(
+                        `INSERT INTO ${tableName} (${columns.join(', ')}) VALUES (${placeholders})`
+                    );
+                }
+                insertQuery.run(...columns!.map(col => row[col] as any));
             }
             this.db!.exec('COMMIT');
         } catch (error) {
             this.db!.exec('ROLLBACK');
             throw error;
+        } finally {
+            insertQuery?.finalize();
         }
     }
 }
\ No newline at end of file
@@ -1,7 +1,12 @@
 "server only";
 
 import { Database as _BunDB } from "bun:sqlite";
-import type { _DataType, DBSchema, TableSchema, ColumnsSchema, DBSchemaToTableTypes } from "./schema";
+import type { _DataType, DBSchema, TableSchema, ColumnsSchema, DBSchemaToTableTypes, DBSchemaToRelations, RelationSchema, FullTextSchema, IndexSchema, JsonIndexPath } from "./schema";
+import { Migrator, MIGRATIONS_TABLE, type Migration } from "./migrator";
+import { onlineBackup, type OnlineBackupOptions, type BackupManifest } from "./backup";
+import { compileValidator, ValidationError, type RecordValidator, type ValidationMode } from "./validator";
+import { WorkerPool } from "./worker-pool";
+import { LatencyHistogram, formatPrometheusMetrics, type HistogramSnapshot } from "./metrics";
 
 /**
  * Advanced connection pool configuration interface
@@ -25,6 +30,10 @@ export interface PoolConfig {
   maxCacheSize: number;
   /** Enable/disable prepared statement pooling */
   enableStatementPooling: boolean;
+  /** Maximum number of prepared statements cached per connection */
+  maxStatementsPerConnection: number;
+  /** Run the reader connections of the async Table API (`selectAsync`, `countAsync`, ...) in Bun Workers */
+  useWorkers: boolean;
   /** Enable connection health checks */
   enableHealthChecks: boolean;
   /** Enable detailed logging */
@@ -47,7 +56,7 @@ export interface PooledConnection {
 /**
  * Pool statistics interface
  */
-interface PoolStats {
+export interface PoolStats {
   totalConnections: number;
   activeConnections: number;
   idleConnections: number;
@@ -59,12 +68,19 @@ interface PoolStats {
   totalErrors: number;
   averageAcquireTime: number;
   cacheHitRate: number;
+  cacheHits: number;
+  cacheMisses: number;
+  /** Time (ms) spent waiting in `acquire()` */
+  acquireTime: HistogramSnapshot;
+  /** Latency (ms) of queries run on the pool's connections, worker connections included */
+  queryLatency: HistogramSnapshot;
 }
 
 /**
  * Enhanced type-safe connection pool for managing database instances with advanced features
  */
 class AdvancedConnectionPool {
+  // Every open pool, keyed by its name (the database path, suffixed when several pools share it)
   private static pools: Map<string, AdvancedConnectionPool> = new Map();
 
   private connections: Map<string, PooledConnection> = new Map();
@@ -75,10 +91,12 @@ class AdvancedConnectionPool {
     timestamp: number;
   }> = [];
 
-  private preparedStatements: Map<string, ReturnType<_BunDB['prepare']>> = new Map();
-  private queryCache: Map<string, { result: unknown[]; timestamp: number; ttl: number }> = new Map();
+  // Statements are only valid on the connection that prepared them, so each connection has its own cache
+  private preparedStatements: Map<_BunDB, Map<string, ReturnType<_BunDB['prepare']>>> = new Map();
+  // Kept in least-recently-used first order: hits move their entry to the end
+  private queryCache: Map<string, { result: unknown[]; timestamp: number; ttl: number; tables: readonly string[] }> = new Map();
 
-  private stats: PoolStats = {
+  private stats: Omit<PoolStats, 'cacheHits' | 'cacheMisses' | 'acquireTime' | 'queryLatency'> = {
     totalConnections: 0,
     activeConnections: 0,
     idleConnections: 0,
@@ -93,17 +111,28 @@ class AdvancedConnectionPool {
   };
 
   private acquireTimes: number[] = [];
+  private readonly acquireHistogram = new LatencyHistogram();
+  private readonly queryHistogram = new LatencyHistogram();
   private cacheHits = 0;
   private cacheRequests = 0;
 
   private cleanupInterval?: Timer;
   private healthCheckInterval?: Timer;
 
+  // Reader connections are only handed out once a WAL writer is attached
+  private readersEnabled = false;
+  private readerCursor = 0;
+  private closed = false;
+  private workers?: WorkerPool;
+
   private readonly config: PoolConfig;
   private readonly dbPath: string;
+  private registered = false;
+  name: string;
 
   constructor(dbPath: string, config: Partial<PoolConfig> = {}) {
     this.dbPath = dbPath;
+    this.name = dbPath;
     this.config = {
       maxConnections: 10,
       minConnections: 2,
@@ -114,6 +143,8 @@ class AdvancedConnectionPool {
       enableQueryCache: true,
       maxCacheSize: 1000,
       enableStatementPooling: true,
+      maxStatementsPerConnection: 100,
+      useWorkers: false,
       enableHealthChecks: true,
       enableLogging: false,
       ...config
@@ -127,13 +158,38 @@ class AdvancedConnectionPool {
   }
 
   static getPool(dbPath: string, config?: Partial<PoolConfig>): AdvancedConnectionPool {
-    if (!this.pools.has(dbPath)) {
-      this.pools.set(dbPath, new AdvancedConnectionPool(dbPath, config));
+    const existing = this.pools.get(dbPath);
+    if (existing) return existing;
+    const pool = new AdvancedConnectionPool(dbPath, config);
+    pool.register();
+    return pool;
+  }
+
+  /**
+   * Statistics of every open pool, keyed by pool name
+   */
+  static getAllStats(): Record<string, PoolStats> {
+    return Object.fromEntries(Array.from(this.pools, ([name, pool]) => [name, pool.getStats()]));
+  }
+
+  /**
+   * Lists the pool in `getAllStats()` until it is closed, under the database path
+   * (suffixed with `#2`, `#3`... when several pools share it)
+   */
+  register(): void {
+    if (this.registered || this.closed) return;
+    let name = this.dbPath;
+    for (let n = 2; AdvancedConnectionPool.pools.has(name); n++) {
+      name = `${this.dbPath}#${n}`;
     }
-    return this.pools.get(dbPath)!;
+    this.name = name;
+    this.registered = true;
+    AdvancedConnectionPool.pools.set(name, this);
   }
 
   async initialize(): Promise<void> {
+    this.register();
+
     // Create minimum connections
     for (let i = 0; i < this.config.minConnections; i++) {
       await this.createConnection();
@@ -154,6 +210,10 @@ class AdvancedConnectionPool {
   }
 
   private async createConnection(): Promise<PooledConnection> {
+    return this.openConnection();
+  }
+
+  private openConnection(): PooledConnection {
     const id = `conn_${Date.now()}_${Bun.randomUUIDv7()}`;
     const database = new _BunDB(this.dbPath, { create: true, strict: true });
 
@@ -187,6 +247,53 @@ class AdvancedConnectionPool {
     return connection;
   }
 
+  /**
+   * Uses an existing connection (e.g. the DatabaseManager's own) as the pool's single writer
+   * Reader connections are only handed out when the writer runs in WAL mode, since other
+   * journal modes (and in-memory databases) cannot serve reads from separate connections.
+   */
+  attachWriter(database: _BunDB): void {
+    const { journal_mode } = database.prepare("PRAGMA journal_mode").get() as { journal_mode: string };
+    this.readersEnabled = journal_mode.toLowerCase() === "wal";
+  }
+
+  /**
+   * Picks a connection for a synchronous read
+   * New connections are opened until the pool holds `maxConnections`, then reads rotate over the
+   * idle ones; returns undefined when the read has to stay on the writer (not in WAL mode, pool
+   * closed, or every connection checked out).
+   */
+  getReader(): _BunDB | undefined {
+    if (!this.readersEnabled || this.closed) return undefined;
+
+    let connection: PooledConnection | undefined;
+    if (this.connections.size < this.config.maxConnections) {
+      connection = this.openConnection();
+    } else if (this.availableConnections.length > 0) {
+      this.readerCursor = (this.readerCursor + 1) % this.availableConnections.length;
+      connection = this.connections.get(this.availableConnections[this.readerCursor]!);
+    }
+    if (!connection) return undefined;
+
+    connection.lastUsed = Date.now();
+    connection.queryCount++;
+    return connection.database;
+  }
+
+  /**
+   * Worker connections of the async Table API, started on first use
+   * Undefined unless `useWorkers` is enabled and the database runs in WAL mode.
+   */
+  getWorkers(): WorkerPool | undefined {
+    if (!this.config.useWorkers || !this.readersEnabled || this.closed) return undefined;
+    this.workers ??= new WorkerPool(this.dbPath, {
+      maxReaders: this.config.maxConnections,
+      maxStatements: this.config.maxStatementsPerConnection,
+      onQuery: durationMs => this.recordQueryTime(durationMs)
+    });
+    return this.workers;
+  }
+
   async acquire(): Promise<PooledConnection> {
     const startTime = Date.now();
 
@@ -280,6 +387,7 @@ class AdvancedConnectionPool {
     const connection = this.connections.get(connectionId);
     if (!connection) return;
 
+    this.clearStatements(connection.database);
     try {
       connection.database.close();
     } catch (error) {
@@ -344,15 +452,51 @@ class AdvancedConnectionPool {
     }
   }
 
+  /**
+   * True when statements from `getPreparedStatement` are cached and must not be finalized by the caller
+   */
+  cachesStatements(): boolean {
+    return this.config.enableStatementPooling && !this.closed;
+  }
+
+  /**
+   * Returns the statement cached under `key` for this connection, preparing it on a miss
+   * Each cache keeps its `maxStatementsPerConnection` most recently used statements; evicted
+   * statements are left to the garbage collector since a caller may still be running them.
+   */
   getPreparedStatement(key: string, query: string, db: _BunDB): ReturnType<_BunDB['prepare']> {
-    if (!this.config.enableStatementPooling) {
+    if (!this.cachesStatements()) {
       return db.prepare(query);
     }
 
-    if (!this.preparedStatements.has(key)) {
-      this.preparedStatements.set(key, db.prepare(query));
+    let statements = this.preparedStatements.get(db);
+    if (!statements) {
+      statements = new Map();
+      this.preparedStatements.set(db, statements);
+    }
+
+    let statement = statements.get(key);
+    if (statement) {
+      statements.delete(key);
+    } else {
+      statement = db.prepare(query);
+      if (statements.size >= this.config.maxStatementsPerConnection) {
+        statements.delete(statements.keys().next().value!);
+      }
+    }
+    statements.set(key, statement);
+    return statement;
+  }
+
+  private clearStatements(db: _BunDB): void {
+    for (const statement of this.preparedStatements.get(db)?.values() ?? []) {
+      try {
+        statement.finalize();
+      } catch (error) {
+        // Ignore finalization errors
+      }
     }
-    return this.preparedStatements.get(key)!;
+    this.preparedStatements.delete(db);
   }
 
   getCachedQuery<T = unknown[]>(key: string): T | undefined {
@@ -363,6 +507,8 @@ class AdvancedConnectionPool {
 
     if (cached && Date.now() - cached.timestamp <= cached.ttl) {
       this.cacheHits++;
+      this.queryCache.delete(key);
+      this.queryCache.set(key, cached);
       return cached.result as T;
     }
 
@@ -373,25 +519,53 @@ class AdvancedConnectionPool {
     return undefined;
   }
 
-  setCachedQuery<T = unknown[]>(key: string, result: T, ttl: number = 300000): void {
-    if (!this.config.enableQueryCache) return;
+  /**
+   * Caches a query result, evicting the least recently used entries beyond `maxCacheSize`
+   *
+   * @param tables - Tables the result was read from, whose writes invalidate it
+   */
+  setCachedQuery<T = unknown[]>(key: string, result: T, ttl: number = 300000, tables: readonly string[] = []): void {
+    if (!this.config.enableQueryCache || this.config.maxCacheSize < 1) return;
 
-    if (this.queryCache.size >= this.config.maxCacheSize) {
-      // Remove oldest entry
-      const firstKey = this.queryCache.keys().next().value;
-      if (firstKey) {
-        this.queryCache.delete(firstKey);
-      }
+    this.queryCache.delete(key);
+    while (this.queryCache.size >= this.config.maxCacheSize) {
+      this.queryCache.delete(this.queryCache.keys().next().value!);
     }
 
     this.queryCache.set(key, {
       result: result as unknown[],
       timestamp: Date.now(),
-      ttl
+      ttl,
+      tables
     });
   }
 
+  /**
+   * Drops the cached results read from a table, or every cached result without a table
+   * Unlike `clearCache()`, the hit statistics are kept.
+   *
+   * @returns Number of entries removed
+   */
+  invalidateCachedQueries(table?: string): number {
+    let removed = 0;
+    for (const [key, cached] of this.queryCache) {
+      if (table === undefined || cached.tables.includes(table)) {
+        this.queryCache.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Records the latency of a query run on one of the pool's connections
+   */
+  recordQueryTime(durationMs: number): void {
+    this.queryHistogram.observe(durationMs);
+  }
+
   private recordAcquireTime(time: number): void {
+    this.acquireHistogram.observe(time);
     this.acquireTimes.push(time);
     if (this.acquireTimes.length > 100) {
       this.acquireTimes.shift();
@@ -415,7 +589,13 @@ class AdvancedConnectionPool {
 
   getStats(): PoolStats {
     this.updateStats();
-    return { ...this.stats };
+    return {
+      ...this.stats,
+      cacheHits: this.cacheHits,
+      cacheMisses: this.cacheRequests - this.cacheHits,
+      acquireTime: this.acquireHistogram.snapshot(),
+      queryLatency: this.queryHistogram.snapshot()
+    };
   }
 
   clearCache(): void {
@@ -425,6 +605,11 @@ class AdvancedConnectionPool {
   }
 
   async close(): Promise<void> {
+    this.closed = true;
+    if (AdvancedConnectionPool.pools.get(this.name) === this) {
+      AdvancedConnectionPool.pools.delete(this.name);
+    }
+
     // Clear intervals
     if (this.cleanupInterval) {
       clearInterval(this.cleanupInterval);
@@ -439,7 +624,15 @@ class AdvancedConnectionPool {
     });
     this.waitingQueue.length = 0;
 
-    // Close all connections
+    await this.workers?.close();
+    this.workers = undefined;
+
+    // Clear prepared statements
+    for (const db of [...this.preparedStatements.keys()]) {
+      this.clearStatements(db);
+    }
+
+    // Close all connections (the attached writer belongs to its DatabaseManager)
     for (const [id, connection] of this.connections) {
       try {
         connection.database.close();
@@ -448,15 +641,6 @@ class AdvancedConnectionPool {
       }
     }
 
-    // Clear prepared statements
-    for (const stmt of this.preparedStatements.values()) {
-      try {
-        stmt.finalize();
-      } catch (error) {
-        // Ignore finalization errors
-      }
-    }
-
     this.connections.clear();
     this.availableConnections.length = 0;
     this.preparedStatements.clear();
@@ -467,7 +651,6 @@ class AdvancedConnectionPool {
     await Promise.all(
       Array.from(this.pools.values()).map(pool => pool.close())
     );
-    this.pools.clear();
   }
 }
 
@@ -477,6 +660,8 @@ type DatabaseInitializerConfig<Schema extends readonly TableSchema[]> = {
   usePool?: boolean;
   poolConfig?: Partial<PoolConfig>;
   dbPath?: string;
+  /** Pool shared with the DatabaseManager a Table comes from */
+  pool?: AdvancedConnectionPool;
 };
 
 type DatabaseInitializerConfigDbPathMendatory = {
@@ -485,6 +670,9 @@ type DatabaseInitializerConfigDbPathMendatory = {
   dbPath: string;
 };
 
+// Connections whose pragmas were already applied by a DatabaseInitializer
+const initializedConnections = new WeakSet<_BunDB>();
+
 class DatabaseInitializer {
   /**
    * Direct access to the database instance
@@ -494,11 +682,11 @@ class DatabaseInitializer {
   protected readonly DBSchema: readonly TableSchema[];
   private readonly usePool: boolean;
   private readonly poolConfig?: Partial<PoolConfig>;
-  private pool?: AdvancedConnectionPool;
+  protected pool?: AdvancedConnectionPool;
 
   constructor(config: DatabaseInitializerConfig<readonly TableSchema[]>) {
     this.DBSchema = config.schema;
-    this.usePool = config?.usePool ?? false;
+    this.usePool = config?.usePool ?? config.pool !== undefined;
     this.poolConfig = config?.poolConfig;
     this.databaseInstance = config.db || new _BunDB(config.dbPath, {
       create: true,
@@ -509,6 +697,12 @@ class DatabaseInitializer {
       throw new Error("Database instance is not available");
     }
     this.initDatabase();
+
+    // Readers open the database file, so pooling needs a path to open
+    this.pool = config.pool;
+    if (!this.pool && this.usePool && config.dbPath) {
+      this.pool = this.createPool(config.dbPath, config.poolConfig);
+    }
   }
 
   static async createWithPool(config: DatabaseInitializerConfigDbPathMendatory) {
@@ -516,15 +710,26 @@ class DatabaseInitializer {
       usePool: true,
       ...config as DatabaseManagerConfig<DBSchema>,
     });
-    await instance.initPool(config.dbPath, config.poolConfig);
     return instance;
   }
 
   async initPool(dbPath: string, poolConfig?: Partial<PoolConfig>): Promise<void> {
-    this.pool = new AdvancedConnectionPool(dbPath, poolConfig);
+    this.pool = this.createPool(dbPath, poolConfig);
+  }
+
+  // The manager's own connection is the pool's writer, so transactions and schema changes share it
+  private createPool(dbPath: string, poolConfig?: Partial<PoolConfig>): AdvancedConnectionPool {
+    const pool = new AdvancedConnectionPool(dbPath, poolConfig);
+    pool.attachWriter(this.databaseInstance);
+    pool.register();
+    return pool;
   }
 
   private initDatabase(): void {
+    // Tables share their manager's connection; configure it once, since some pragmas fail inside transactions
+    if (initializedConnections.has(this.databaseInstance)) return;
+    initializedConnections.add(this.databaseInstance);
+
     this.databaseInstance.exec("PRAGMA journal_mode = WAL;");
     this.databaseInstance.exec("PRAGMA foreign_keys = ON;");
     this.databaseInstance.exec("PRAGMA synchronous = NORMAL;");
@@ -581,6 +786,7 @@ class DatabaseInitializer {
     }
 
     const connection = await this.pool.acquire();
+    const startedAt = performance.now();
     try {
       const result = queryFn(connection.database);
       connection.queryCount++;
@@ -595,6 +801,7 @@ class DatabaseInitializer {
       connection.errorCount++;
       throw error;
     } finally {
+      this.pool.recordQueryTime(performance.now() - startedAt);
       this.pool.release(connection);
     }
   }
@@ -611,10 +818,155 @@ class DatabaseInitializer {
 
 type DatabaseManagerConfig<Schema extends readonly TableSchema[]> = DatabaseInitializerConfig<Schema>;
 
+/**
+ * Tables managed by the library itself, ignored when diffing against the declared schema
+ */
+const INTERNAL_TABLES = new Set<string>([MIGRATIONS_TABLE]);
+
+/**
+ * Name of the FTS5 table backing a table's `fullText` index
+ */
+function fullTextTableName(table: string): string {
+  return `${table}_fts`;
+}
+
+// Index key: a column name, or the json_extract expression of a JSON path
+function indexKeySql(key: string | JsonIndexPath): string {
+  return typeof key === "string" ? key : `json_extract(${key.column}, ${jsonPathLiteral(key.path)})`;
+}
+
+/**
+ * A where value is a JSON path filter when it holds a `path` array and only JSON path operators
+ * (any other object is compared as a whole JSON document)
+ */
+function isJsonPathFilter(value: unknown): value is { path: readonly (string | number)[] } & Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value) || value instanceof Date) return false;
+  const { path, ...operators } = value as Record<string, unknown>;
+  return Array.isArray(path) &&
+    Object.keys(operators).length > 0 &&
+    Object.keys(operators).every(key => key in JSON_PATH_OPERATORS || key === "in" || key === "notIn");
+}
+
+/**
+ * Formats a JSON path as an SQL string literal (e.g. `'$.settings.tags[0]'`)
+ * Paths are inlined rather than bound so expression indexes on the same path can be used.
+ */
+function jsonPathLiteral(path: readonly (string | number)[], suffix: string = ""): string {
+  if (!Array.isArray(path)) {
+    throw new Error("JSON path must be an array of keys and indexes");
+  }
+  const segments = path.map(segment => {
+    if (typeof segment === "number") {
+      if (!Number.isInteger(segment) || segment < 0) {
+        throw new Error(`Invalid JSON path index: ${segment}`);
+      }
+      return `[${segment}]`;
+    }
+    if (typeof segment !== "string" || segment === "" || segment.includes('"')) {
+      throw new Error(`Invalid JSON path key: ${String(segment)}`);
+    }
+    return /^[A-Za-z_][A-Za-z0-9_]*$/.test(segment) ? `.${segment}` : `."${segment}"`;
+  });
+  return `'${`$${segments.join("")}${suffix}`.replace(/'/g, "''")}'`;
+}
+
+/**
+ * SQLite locking mode of a top-level transaction
+ */
+export type TransactionMode = 'DEFERRED' | 'IMMEDIATE' | 'EXCLUSIVE';
+
+const TRANSACTION_MODES: TransactionMode[] = ['DEFERRED', 'IMMEDIATE', 'EXCLUSIVE'];
+
+// Unique suffix for nested transaction savepoints
+let transactionSavepointCounter = 0;
+
+/**
+ * Turn-taking of the async writers of one connection: async transactions and the writes of the
+ * async Table API run one after another, so a queued write never joins another caller's transaction
+ * Tasks run one after another; a held promise keeps later tasks waiting until it settles.
+ */
+class WriteQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  run<R>(task: () => R | Promise<R>): Promise<R> {
+    return this.hold(this.tail.then(task));
+  }
+
+  hold<R>(promise: Promise<R>): Promise<R> {
+    this.tail = promise.then(() => { }, () => { });
+    return promise;
+  }
+}
+
+// Shared by every manager and table using the same connection
+const writeQueues = new WeakMap<_BunDB, WriteQueue>();
+
+function writeQueueOf(db: _BunDB): WriteQueue {
+  let queue = writeQueues.get(db);
+  if (!queue) {
+    queue = new WriteQueue();
+    writeQueues.set(db, queue);
+  }
+  return queue;
+}
+
+function isAsyncFunction(fn: Function): boolean {
+  return fn.constructor?.name === "AsyncFunction";
+}
+
+/**
+ * Handle passed to `DatabaseManager.transaction()` callbacks
+ * Tables obtained from it share the transaction's connection; `transaction()` nests a savepoint.
+ */
+export type TransactionScope<Schema extends readonly TableSchema[]> = Pick<DatabaseManager<Schema>, 'getTable' | 'transaction'>;
+
+/**
+ * Single property difference of a column between the declared schema and the live database
+ */
+export interface ColumnChange {
+  property: 'type' | 'nullable' | 'default' | 'primary' | 'unique' | 'references';
+  expected: unknown;
+  actual: unknown;
+}
+
+/**
+ * Differences of a table present both in the declared schema and in the live database
+ */
+export interface TableDiff {
+  name: string;
+  columns: {
+    added: string[];
+    removed: string[];
+    changed: Array<{ name: string; changes: ColumnChange[] }>;
+  };
+  indexes: {
+    added: string[];
+    removed: string[];
+    changed: string[];
+  };
+  /** True when the changes cannot be expressed with ALTER TABLE and the table must be rebuilt */
+  requiresRebuild: boolean;
+}
+
+/**
+ * Structured difference between the declared DBSchema and the live database
+ */
+export interface SchemaDiff {
+  hasChanges: boolean;
+  tables: {
+    added: string[];
+    removed: string[];
+    changed: TableDiff[];
+  };
+  /** Statements reconciling the database with the declared schema, in execution order */
+  sql: string[];
+}
+
 /**
  * Database utility class for creating tables with optional connection pooling
  */
 export class DatabaseManager<Schema extends readonly TableSchema[]> extends DatabaseInitializer {
+  private readonly middleware: TableMiddleware<any, any>[] = [];
 
   constructor(config: DatabaseManagerConfig<Schema>) {
     super(config);
@@ -666,18 +1018,66 @@ export class DatabaseManager<Schema extends readonly TableSchema[]> extends Data
 
   getTable<K extends keyof DBSchemaToTableTypes<Schema>>(
     tableName: K,
-    options?: { debug?: boolean; }
-  ): Table<DBSchemaToTableTypes<Schema>[K] & Record<string, any>, DBSchemaToTableTypes<Schema>[K] & Record<string, any>> {
-    return new Table<DBSchemaToTableTypes<Schema>[K] & Record<string, any>, DBSchemaToTableTypes<Schema>[K] & Record<string, any>>({
+    options?: { debug?: boolean; validation?: ValidationMode; }
+  ): Table<
+    DBSchemaToTableTypes<Schema>[K] & Record<string, any>,
+    DBSchemaToTableTypes<Schema>[K] & Record<string, any>,
+    DBSchemaToTableTypes<Schema>,
+    DBSchemaToRelations<Schema>,
+    K & string
+  > {
+    return this.tableOf(tableName, options, false);
+  }
+
+  private tableOf<K extends keyof DBSchemaToTableTypes<Schema>>(
+    tableName: K,
+    options: { debug?: boolean; validation?: ValidationMode; } | undefined,
+    transactionScoped: boolean
+  ) {
+    return new Table<
+      DBSchemaToTableTypes<Schema>[K] & Record<string, any>,
+      DBSchemaToTableTypes<Schema>[K] & Record<string, any>,
+      DBSchemaToTableTypes<Schema>,
+      DBSchemaToRelations<Schema>,
+      K & string
+    >({
       name: tableName as string,
       db: this.databaseInstance,
+      pool: this.pool,
       schema: this.DBSchema,
       debug: false,
       enableWAL: true,
+      middleware: this.middleware,
+      transactionScoped,
       ...options,
     });
   }
 
+  /**
+   * Registers lifecycle hooks for every table of this DatabaseManager
+   * Hooks apply to tables already obtained with getTable() as well, and run before table-level hooks.
+   * Contexts are discriminated by `table`, so records are typed after checking the table name.
+   * 
+   * @param middleware - Hooks to register (see Table.use() for their semantics)
+   * @returns This DatabaseManager for chaining
+   * 
+   * @example
+   * ```typescript
+   * dbManager.use({
+   *   beforeInsert: (context) => {
+   *     if (context.table === 'Posts') {
+   *       context.records.forEach(post => post.slug ??= slugify(post.title));
+   *     }
+   *   },
+   *   afterQuery: ({ table, operation, sql }) => console.debug(table, operation, sql)
+   * });
+   * ```
+   */
+  use(middleware: DatabaseMiddleware<Schema>): this {
+    this.middleware.push(middleware as TableMiddleware<any, any>);
+    return this;
+  }
+
   /**
    * Creates tables from the provided schema with automatic type mapping and constraints
    * Supports both single table and batch table creation with proper error handling
@@ -744,6 +1144,22 @@ export class DatabaseManager<Schema extends readonly TableSchema[]> extends Data
       const query = this.databaseInstance.query(queryString);
       query.run();
       query.finalize();
+
+      for (const indexQuery of this.buildCreateIndexQueries(tableSchema)) {
+        this.databaseInstance.exec(indexQuery);
+      }
+
+      if (tableSchema.fullText) {
+        const ftsTable = fullTextTableName(tableSchema.name);
+        const indexed = this.databaseInstance.prepare(
+          "SELECT 1 FROM sqlite_master WHERE type='table' AND name = ?"
+        ).get(ftsTable);
+        for (const fullTextQuery of this.buildFullTextQueries(tableSchema)) {
+          this.databaseInstance.exec(fullTextQuery);
+        }
+        // Index rows that existed before the full-text table
+        if (!indexed) this.databaseInstance.exec(`INSERT INTO ${ftsTable}(${ftsTable}) VALUES ('rebuild')`);
+      }
     } catch (error) {
       throw new Error(`Failed to create table '${tableSchema.name}': ${error}`);
     }
@@ -772,6 +1188,49 @@ export class DatabaseManager<Schema extends readonly TableSchema[]> extends Data
     if (columnNames.length !== uniqueNames.size) {
       throw new Error(`Table '${schema.name}' has duplicate column names`);
     }
+
+    const versionColumns = schema.columns.filter(col => col.type === 'number' && col.version);
+    if (versionColumns.length > 1) {
+      throw new Error(`Table '${schema.name}' can only have one version column`);
+    }
+    if (versionColumns.some(col => col.nullable || col.primary)) {
+      throw new Error(`Version column of table '${schema.name}' cannot be nullable or a primary key`);
+    }
+
+    for (const index of schema.indexes ?? []) {
+      for (const key of index.columns) {
+        if (typeof key === 'string') continue;
+        if (!schema.columns.some(col => col.name === key.column && col.type === 'json')) {
+          throw new Error(`Index '${index.name}' of table '${schema.name}' can only use JSON paths of json columns`);
+        }
+        if (key.path.length === 0) {
+          throw new Error(`Index '${index.name}' of table '${schema.name}' needs a non-empty JSON path`);
+        }
+      }
+    }
+
+    if (schema.fullText) {
+      const primary = schema.columns.filter(col => col.primary);
+      if (primary.length !== 1 || primary[0]!.type !== 'number') {
+        throw new Error(`Table '${schema.name}' needs a single number primary key to use fullText`);
+      }
+      if (schema.fullText.columns.length === 0) {
+        throw new Error(`Table '${schema.name}' must index at least one fullText column`);
+      }
+      for (const name of schema.fullText.columns) {
+        const column = schema.columns.find(col => col.name === name);
+        if (!column || column.type !== 'string') {
+          throw new Error(`Full-text column '${name}' of table '${schema.name}' must be a string column`);
+        }
+      }
+    }
+
+    if (schema.softDelete) {
+      const column = schema.columns.find(col => col.name === schema.softDelete!.column);
+      if (!column || column.type !== 'Date' || !column.nullable) {
+        throw new Error(`Soft delete column '${schema.softDelete.column}' of table '${schema.name}' must be a nullable Date column`);
+      }
+    }
   }
 
   /**
@@ -782,6 +1241,45 @@ export class DatabaseManager<Schema extends readonly TableSchema[]> extends Data
     return `CREATE TABLE IF NOT EXISTS ${schema.name} (${columns.join(", ")})`;
   }
 
+  /**
+   * Builds the CREATE INDEX statements for the table's declared indexes
+   */
+  private buildCreateIndexQueries(schema: TableSchema): string[] {
+    return (schema.indexes ?? []).map(index =>
+      `CREATE ${index.unique ? "UNIQUE INDEX" : "INDEX"} IF NOT EXISTS ${index.name} ON ${schema.name} (${this.buildIndexKeys(index).join(", ")})`
+    );
+  }
+
+  private buildIndexKeys(index: IndexSchema): string[] {
+    return index.columns.map(indexKeySql);
+  }
+
+  /**
+   * Builds the external-content FTS5 table of the `fullText` option and the triggers
+   * keeping it in sync with inserts, updates and deletes
+   */
+  private buildFullTextQueries(schema: TableSchema): string[] {
+    if (!schema.fullText) return [];
+
+    const ftsTable = fullTextTableName(schema.name);
+    const key = schema.columns.find(col => col.primary)!.name;
+    const columns = schema.fullText.columns.join(", ");
+    const values = (row: "new" | "old") => schema.fullText!.columns.map(col => `${row}.${col}`).join(", ");
+    const tokenizer = schema.fullText.tokenizer
+      ? `, tokenize='${schema.fullText.tokenizer.replace(/'/g, "''")}'`
+      : "";
+
+    const insert = `INSERT INTO ${ftsTable}(rowid, ${columns}) VALUES (new.${key}, ${values("new")});`;
+    const remove = `INSERT INTO ${ftsTable}(${ftsTable}, rowid, ${columns}) VALUES ('delete', old.${key}, ${values("old")});`;
+
+    return [
+      `CREATE VIRTUAL TABLE IF NOT EXISTS ${ftsTable} USING fts5(${columns}, content='${schema.name}', content_rowid='${key}'${tokenizer})`,
+      `CREATE TRIGGER IF NOT EXISTS ${ftsTable}_ai AFTER INSERT ON ${schema.name} BEGIN ${insert} END`,
+      `CREATE TRIGGER IF NOT EXISTS ${ftsTable}_ad AFTER DELETE ON ${schema.name} BEGIN ${remove} END`,
+      `CREATE TRIGGER IF NOT EXISTS ${ftsTable}_au AFTER UPDATE ON ${schema.name} BEGIN ${remove} ${insert} END`
+    ];
+  }
+
   /**
    * Builds individual column definition
    */
@@ -834,14 +1332,28 @@ export class DatabaseManager<Schema extends readonly TableSchema[]> extends Data
       constraints.push("UNIQUE");
     }
 
-    if (column.default !== undefined) {
-      const defaultValue = this.formatDefaultValue(column.default, column.type);
-      constraints.push(`DEFAULT ${defaultValue}`);
+    const defaultValue = this.getColumnDefault(column);
+    if (defaultValue !== undefined) {
+      constraints.push(`DEFAULT ${this.formatDefaultValue(defaultValue, column.type)}`);
+    }
+
+    if (column.references) {
+      const { table, column: referencedColumn, onDelete, onUpdate } = column.references;
+      let reference = `REFERENCES ${table}(${referencedColumn})`;
+      if (onDelete) reference += ` ON DELETE ${onDelete}`;
+      if (onUpdate) reference += ` ON UPDATE ${onUpdate}`;
+      constraints.push(reference);
     }
 
     return constraints.length > 0 ? ` ${constraints.join(" ")}` : "";
   }
 
+  // Version columns start at 1 unless the schema gives another default
+  private getColumnDefault(column: ColumnsSchema): unknown {
+    if (column.default === undefined && column.type === "number" && column.version) return 1;
+    return column.default;
+  }
+
   /**
    * Formats default values for SQL
    */
@@ -879,31 +1391,33 @@ export class DatabaseManager<Schema extends readonly TableSchema[]> extends Data
   /**
    * Creates a complete database backup with optional compression and data filtering
    * Supports both full database backups and schema-only exports
-   * Uses SQLite's VACUUM INTO for efficient full database copying
+   * Full backups run `backupOnline()`: pages are copied step by step from a consistent snapshot,
+   * gzip output is streamed to disk and a `<backup>.manifest.json` is written next to the backup
    * 
    * @param backupPath - File path where the backup will be saved (automatically adds .gz for compressed backups)
    * @param options - Backup configuration options
    * @param options.compress - Enable gzip compression for smaller backup files (default: false)
    * @param options.includeData - Include table data or schema only (default: true)
+   * @param options.ui - Progress reporting of full backups, e.g. the CLI's `ConsoleUI`
    * 
    * @example
    * ```typescript
    * const dbManager = new DatabaseManager();
    * 
    * // Full database backup with compression
-   * dbManager.backup('./backups/database-full.db', { 
+   * await dbManager.backup('./backups/database-full.db', { 
    *   compress: true, 
    *   includeData: true 
    * });
    * 
    * // Schema-only backup (no data)
-   * dbManager.backup('./backups/schema-only.json', { 
+   * await dbManager.backup('./backups/schema-only.json', { 
    *   compress: false, 
    *   includeData: false 
    * });
    * 
    * // Compressed schema backup
-   * dbManager.backup('./backups/schema.json.gz', { 
+   * await dbManager.backup('./backups/schema.json.gz', { 
    *   compress: true, 
    *   includeData: false 
    * });
@@ -911,40 +1425,15 @@ export class DatabaseManager<Schema extends readonly TableSchema[]> extends Data
    * 
    * @throws {Error} When backup operation fails due to file system issues or database lock
    */
-  backup(backupPath: string, options: { compress?: boolean; includeData?: boolean } = {}): void {
-    const { compress = false, includeData = true } = options;
+  async backup(backupPath: string, options: { compress?: boolean; includeData?: boolean; ui?: OnlineBackupOptions["ui"] } = {}): Promise<void> {
+    const { compress = false, includeData = true, ui } = options;
 
     try {
       let finalBackupPath = backupPath;
 
       if (includeData) {
-        // For compressed backups, we need to create a temporary file first
-        let tempPath: string;
-        if (compress) {
-          // Create a unique temporary file path
-          const timestamp = Date.now();
-          tempPath = `${backupPath}.${timestamp}.tmp`;
-        } else {
-          tempPath = backupPath;
-        }
-
-        // Full database backup using SQLite's VACUUM INTO
-        this.databaseInstance.exec(`VACUUM INTO '${tempPath}'`);
-
-        if (compress) {
-          // Compress the backup file
-          const fs = require('fs');
-
-          const data = fs.readFileSync(tempPath);
-          const compressed = Bun.gzipSync(data);
-
-          // Ensure the backup path has .gz extension
-          finalBackupPath = backupPath.endsWith('.gz') ? backupPath : `${backupPath}.gz`;
-          fs.writeFileSync(finalBackupPath, compressed);
-
-          // Clean up temporary file
-          fs.unlinkSync(tempPath);
-        }
+        await onlineBackup(this.databaseInstance, backupPath, { compress, ui });
+        finalBackupPath = compress && !backupPath.endsWith('.gz') ? `${backupPath}.gz` : backupPath;
       } else {
         // Schema-only backup
         const schema = this.exportSchema();
@@ -966,6 +1455,42 @@ export class DatabaseManager<Schema extends readonly TableSchema[]> extends Data
     }
   }
 
+  /**
+   * Creates a backup of the live database step by step, without blocking writers in WAL mode
+   * Pages are copied from a consistent snapshot `pagesPerStep` at a time, letting other work run
+   * between steps, and streamed to disk through gzip when compressing, so memory use stays flat.
+   * A `<backup>.manifest.json` file records the schema version, row counts and SHA-256 of the backup.
+   * `backup()` runs it for full backups; call it directly for the manifest and the step options.
+   * Restore the result with `restore()`.
+   *
+   * @param backupPath - File path of the backup (`.gz` is added for compressed backups)
+   * @param options.compress - Gzip the backup while writing it (default: false)
+   * @param options.pagesPerStep - Database pages copied per step (default: 256)
+   * @param options.stepDelay - Pause (ms) between steps (default: 0)
+   * @param options.snapshotTimeout - Time (ms) waiting for the WAL to empty before the snapshot is copied in memory (default: 5000)
+   * @param options.ui - Progress reporting, e.g. the CLI's `ConsoleUI`
+   * @param options.manifest - Write the manifest file (default: true)
+   *
+   * @example
+   * ```typescript
+   * const manifest = await dbManager.backupOnline('./backups/app.db', {
+   *   compress: true,
+   *   ui: new ConsoleUI()
+   * });
+   * console.log(manifest.file, manifest.tables, manifest.sha256);
+   * ```
+   *
+   * @returns The manifest of the backup
+   * @throws {Error} When the database cannot be read or writing the backup fails
+   */
+  async backupOnline(backupPath: string, options: OnlineBackupOptions = {}): Promise<BackupManifest> {
+    try {
+      return await onlineBackup(this.databaseInstance, backupPath, options);
+    } catch (error) {
+      throw new Error(`Failed to create backup: ${error}`);
+    }
+  }
+
   /**
    * Restores database from a backup file with automatic compression detection
    * Supports both SQLite database files and JSON schema files
@@ -1054,9 +1579,10 @@ export class DatabaseManager<Schema extends readonly TableSchema[]> extends Data
           const backupDb = new BunDB(dbPathToUse, { readonly: true });
 
           try {
-            // Get tables from backup
+            // Get tables from backup; full-text indexes are maintained by their content table's triggers
             const backupTables = backupDb.prepare(
-              "SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%'"
+              "SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%' " +
+              "AND name NOT IN (SELECT name FROM pragma_table_list WHERE type IN ('virtual', 'shadow'))"
             ).all() as { name: string }[];
 
             // Restore each table
@@ -1075,18 +1601,23 @@ export class DatabaseManager<Schema extends readonly TableSchema[]> extends Data
 
               this.databaseInstance.exec(`CREATE TABLE IF NOT EXISTS ${name} (${columnDefs})`);
 
-              // Copy data
-              const data = backupDb.prepare(`SELECT * FROM ${name}`).all();
-              if (data.length > 0) {
-                const columns = Object.keys(data[0]);
-                const placeholders = columns.map(() => '?').join(', ');
-                const insertQuery = `INSERT OR REPLACE INTO ${name} (${columns.join(', ')}) VALUES (${placeholders})`;
-                const insertStmt = this.databaseInstance.prepare(insertQuery);
-
-                for (const row of data) {
+              // Copy data row by row through the statement iterator
+              const selectStmt = backupDb.prepare(`SELECT * FROM ${name}`);
+              let insertStmt: ReturnType<_BunDB['prepare']> | undefined;
+              try {
+                for (const row of selectStmt.iterate() as IterableIterator<Record<string, any>>) {
+                  if (!insertStmt) {
+                    const columns = Object.keys(row);
+                    const placeholders = columns.map(() => '?').join(', ');
+                    insertStmt = this.databaseInstance.prepare(
+                      `INSERT OR REPLACE INTO ${name} (${columns.join(', ')}) VALUES (${placeholders})`
+                    );
+                  }
                   insertStmt.run(...Object.values(row) as any[]);
                 }
-                insertStmt.finalize();
+              } finally {
+                insertStmt?.finalize();
+                selectStmt.finalize();
               }
             }
           } finally {
@@ -1103,6 +1634,9 @@ export class DatabaseManager<Schema extends readonly TableSchema[]> extends Data
       console.log(`Database restored from: ${backupPath}${isCompressed ? ' (decompressed)' : ''}`);
     } catch (error) {
       throw new Error(`Failed to restore database: ${error}`);
+    } finally {
+      // Tables may be dropped or partly restored even when the restore fails
+      this.pool?.invalidateCachedQueries();
     }
   }
 
@@ -1211,6 +1745,9 @@ export class DatabaseManager<Schema extends readonly TableSchema[]> extends Data
         this.databaseInstance.exec("DETACH DATABASE source_db");
       } catch { }
       throw new Error(`Failed to merge database: ${error}`);
+    } finally {
+      // Tables merged before a failure keep their new rows
+      this.pool?.invalidateCachedQueries();
     }
   }
 
@@ -1466,6 +2003,24 @@ export class DatabaseManager<Schema extends readonly TableSchema[]> extends Data
     console.log("Database optimization completed");
   }
 
+  /**
+   * Promise-returning mirror of `optimize()` that waits for the async writes and async
+   * transactions started before it (see `Table.insertAsync()`)
+   * The maintenance statements then run on this manager's connection like `optimize()`, so a
+   * long VACUUM still blocks the event loop: running it on another connection would make every
+   * write of this manager fail with SQLITE_BUSY until it ends.
+   *
+   * @example
+   * ```typescript
+   * await dbManager.optimizeAsync({ vacuum: true, analyze: true });
+   * ```
+   */
+  async optimizeAsync(options: { vacuum?: boolean; analyze?: boolean; reindex?: boolean } = {}): Promise<void> {
+    if (this.databaseInstance.inTransaction) return this.optimize(options);
+
+    await writeQueueOf(this.databaseInstance).run(() => this.optimize(options));
+  }
+
   /**
    * Retrieves a list of all user-defined tables in the database
    * Excludes SQLite system tables (those starting with 'sqlite_')
@@ -1489,8 +2044,10 @@ export class DatabaseManager<Schema extends readonly TableSchema[]> extends Data
    * ```
    */
   listTables(): Array<keyof DBSchemaToTableTypes<Schema>> {
+    // FTS5 virtual tables and their shadow tables are managed through `fullText`
     const result = this.databaseInstance.prepare(
-      "SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%'"
+      "SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%' " +
+      "AND name NOT IN (SELECT name FROM pragma_table_list WHERE type IN ('virtual', 'shadow'))"
     ).all() as { name: string }[];
     return result.map(row => row.name) as Array<keyof DBSchemaToTableTypes<Schema>>;
   }
@@ -1540,49 +2097,465 @@ export class DatabaseManager<Schema extends readonly TableSchema[]> extends Data
   }
 
   /**
-   * Executes multiple SQL statements within a single transaction
-   * Ensures atomicity - either all statements succeed or all are rolled back
-   * Provides better performance for bulk operations and data consistency
+   * Compares the declared DBSchema with the live database structure
+   * Reports added, removed and changed tables, columns, column constraints and indexes,
+   * and generates the SQL needed to reconcile the database with the schema
    * 
-   * @param statements - Array of SQL statements to execute in sequence
+   * Changes ALTER TABLE can express (new nullable or defaulted columns, index changes) are
+   * emitted as-is; everything else uses SQLite's table-rebuild pattern: create a new table,
+   * copy the shared columns, drop the old table and rename the new one.
+   * Tables missing from the schema are reported but only dropped when `dropRemovedTables` is set.
+   * 
+   * @param options - Diff configuration options
+   * @param options.dropRemovedTables - Emit DROP TABLE for tables not declared in the schema (default: false)
+   * @returns Structured diff with the reconciliation SQL
    * 
    * @example
    * ```typescript
-   * const dbManager = new DatabaseManager();
-   * 
-   * // Execute multiple related operations atomically
-   * dbManager.executeTransaction([
-   *   "INSERT INTO users (name, email) VALUES ('John', 'john@example.com')",
-   *   "INSERT INTO profiles (user_id, bio) VALUES (1, 'Software developer')",
-   *   "UPDATE users SET status = 'active' WHERE id = 1"
-   * ]);
+   * const dbManager = new DatabaseManager({ dbPath: './app.db', schema });
+   * const diff = dbManager.diffSchema();
    * 
-   * // Complex data migration
-   * const migrationStatements = [
-   *   "ALTER TABLE users ADD COLUMN created_at INTEGER",
-   *   "UPDATE users SET created_at = strftime('%s', 'now') WHERE created_at IS NULL",
-   *   "CREATE INDEX idx_users_created_at ON users(created_at)"
-   * ];
-   * dbManager.executeTransaction(migrationStatements);
+   * if (diff.hasChanges) {
+   *   console.log('New tables:', diff.tables.added);
+   *   diff.tables.changed.forEach(table => {
+   *     console.log(`${table.name}: +${table.columns.added} -${table.columns.removed}`);
+   *   });
+   *   console.log(diff.sql.join(";\n"));
+   *   dbManager.applySchemaDiff(diff);
+   * }
    * ```
-   * 
-   * @throws {Error} When any statement in the transaction fails, causing complete rollback
    */
-  executeTransaction(statements: string[]): void {
-    const transaction = this.databaseInstance.transaction(() => {
-      for (const statement of statements) {
+  diffSchema(options: { dropRemovedTables?: boolean } = {}): SchemaDiff {
+    const { dropRemovedTables = false } = options;
+
+    const liveTables = (this.listTables() as string[]).filter(name => !INTERNAL_TABLES.has(name));
+    const declaredTables = this.DBSchema.map(table => table.name);
+
+    const diff: SchemaDiff = {
+      hasChanges: false,
+      tables: {
+        added: declaredTables.filter(name => !liveTables.includes(name)),
+        removed: liveTables.filter(name => !declaredTables.includes(name)),
+        changed: []
+      },
+      sql: []
+    };
+
+    const preamble: string[] = [];
+    const statements: string[] = [];
+
+    for (const tableSchema of this.DBSchema) {
+      if (diff.tables.added.includes(tableSchema.name)) {
+        statements.push(
+          this.buildCreateTableQuery(tableSchema),
+          ...this.buildCreateIndexQueries(tableSchema),
+          ...this.buildFullTextQueries(tableSchema)
+        );
+        continue;
+      }
+
+      const tableDiff = this.diffTable(tableSchema);
+      const hasTableChanges = tableDiff.columns.added.length > 0 ||
+        tableDiff.columns.removed.length > 0 ||
+        tableDiff.columns.changed.length > 0 ||
+        tableDiff.indexes.added.length > 0 ||
+        tableDiff.indexes.removed.length > 0 ||
+        tableDiff.indexes.changed.length > 0;
+
+      if (!hasTableChanges) continue;
+      diff.tables.changed.push(tableDiff);
+
+      if (tableDiff.requiresRebuild) {
+        if (preamble.length === 0) preamble.push("PRAGMA foreign_keys = OFF");
+        statements.push(...this.buildRebuildTableQueries(tableSchema));
+        continue;
+      }
+
+      for (const columnName of tableDiff.columns.added) {
+        const column = tableSchema.columns.find(col => col.name === columnName)!;
+        statements.push(`ALTER TABLE ${tableSchema.name} ADD COLUMN ${this.buildColumnDefinition(column)}`);
+      }
+      for (const indexName of [...tableDiff.indexes.removed, ...tableDiff.indexes.changed]) {
+        statements.push(`DROP INDEX IF EXISTS ${indexName}`);
+      }
+      const indexesToCreate = [...tableDiff.indexes.added, ...tableDiff.indexes.changed];
+      statements.push(...this.buildCreateIndexQueries({
+        ...tableSchema,
+        indexes: (tableSchema.indexes ?? []).filter(index => indexesToCreate.includes(index.name))
+      }));
+    }
+
+    if (dropRemovedTables) {
+      for (const tableName of diff.tables.removed) {
+        statements.push(`DROP TABLE IF EXISTS ${tableName}`);
+      }
+    }
+
+    diff.hasChanges = diff.tables.added.length > 0 ||
+      diff.tables.removed.length > 0 ||
+      diff.tables.changed.length > 0;
+
+    if (statements.length > 0) {
+      diff.sql = [...preamble, "BEGIN", ...statements];
+      if (preamble.length > 0) diff.sql.push("PRAGMA foreign_key_check");
+      diff.sql.push("COMMIT");
+      if (preamble.length > 0) diff.sql.push("PRAGMA foreign_keys = ON");
+    }
+
+    return diff;
+  }
+
+  /**
+   * Executes the reconciliation SQL of a schema diff
+   * Statements run in order inside the transaction emitted by diffSchema()
+   * 
+   * @param diff - Diff to apply (default: a fresh diffSchema())
+   * @returns The applied diff
+   * 
+   * @example
+   * ```typescript
+   * const applied = dbManager.applySchemaDiff();
+   * console.log(`Executed ${applied.sql.length} statements`);
+   * ```
+   * 
+   * @throws {Error} When a statement fails; the transaction is rolled back
+   */
+  applySchemaDiff(diff: SchemaDiff = this.diffSchema()): SchemaDiff {
+    try {
+      for (const statement of diff.sql) {
+        if (statement === "PRAGMA foreign_key_check") {
+          const violations = this.databaseInstance.prepare(statement).all();
+          if (violations.length > 0) {
+            throw new Error(`Foreign key violations after rebuild: ${JSON.stringify(violations)}`);
+          }
+          continue;
+        }
+        this.databaseInstance.exec(statement);
+      }
+    } catch (error) {
+      if (this.databaseInstance.inTransaction) {
+        this.databaseInstance.exec("ROLLBACK");
+      }
+      this.databaseInstance.exec("PRAGMA foreign_keys = ON");
+      throw new Error(`Failed to apply schema diff: ${error}`);
+    } finally {
+      this.pool?.invalidateCachedQueries();
+    }
+    return diff;
+  }
+
+  /**
+   * Computes the differences of a single table present in both the schema and the database
+   */
+  private diffTable(tableSchema: TableSchema): TableDiff {
+    const liveColumns = this.databaseInstance.prepare(`PRAGMA table_info(${tableSchema.name})`).all() as Array<{
+      name: string; type: string; notnull: number; dflt_value: string | null; pk: number;
+    }>;
+    const liveIndexList = this.databaseInstance.prepare(`PRAGMA index_list(${tableSchema.name})`).all() as Array<{
+      name: string; unique: number; origin: string;
+    }>;
+    const liveForeignKeys = this.databaseInstance.prepare(`PRAGMA foreign_key_list(${tableSchema.name})`).all() as Array<{
+      table: string; from: string; to: string; on_update: string; on_delete: string;
+    }>;
+
+    const indexColumns = (indexName: string) =>
+      (this.databaseInstance.prepare(`PRAGMA index_info(${indexName})`).all() as Array<{ name: string }>)
+        .map(info => info.name);
+
+    const liveUniqueColumns = new Set(
+      liveIndexList
+        .filter(index => index.origin === "u")
+        .map(index => indexColumns(index.name))
+        .filter(columns => columns.length === 1)
+        .map(columns => columns[0]!)
+    );
+
+    const tableDiff: TableDiff = {
+      name: tableSchema.name,
+      columns: { added: [], removed: [], changed: [] },
+      indexes: { added: [], removed: [], changed: [] },
+      requiresRebuild: false
+    };
+
+    for (const column of tableSchema.columns) {
+      const live = liveColumns.find(col => col.name === column.name);
+      if (!live) {
+        tableDiff.columns.added.push(column.name);
+        const canAlter = !column.primary && !column.unique &&
+          (column.nullable || this.getColumnDefault(column) !== undefined) &&
+          !(column.references && column.default !== undefined);
+        if (!canAlter) tableDiff.requiresRebuild = true;
+        continue;
+      }
+
+      const changes: ColumnChange[] = [];
+      const expectedType = this.getSQLiteDataType(column);
+      if (live.type.toUpperCase() !== expectedType) {
+        changes.push({ property: 'type', expected: expectedType, actual: live.type });
+      }
+      const expectedNullable = !!column.nullable || !!column.primary;
+      if (expectedNullable !== (live.notnull === 0)) {
+        changes.push({ property: 'nullable', expected: expectedNullable, actual: live.notnull === 0 });
+      }
+      const defaultValue = this.getColumnDefault(column);
+      const expectedDefault = defaultValue !== undefined ? this.formatDefaultValue(defaultValue, column.type) : null;
+      if (expectedDefault !== live.dflt_value) {
+        changes.push({ property: 'default', expected: expectedDefault, actual: live.dflt_value });
+      }
+      if (!!column.primary !== live.pk > 0) {
+        changes.push({ property: 'primary', expected: !!column.primary, actual: live.pk > 0 });
+      }
+      const expectedUnique = !!column.unique && !column.primary;
+      if (expectedUnique !== liveUniqueColumns.has(column.name)) {
+        changes.push({ property: 'unique', expected: expectedUnique, actual: liveUniqueColumns.has(column.name) });
+      }
+
+      const liveReference = liveForeignKeys.find(fk => fk.from === column.name);
+      const expectedReference = column.references ? {
+        table: column.references.table,
+        column: column.references.column,
+        onDelete: column.references.onDelete ?? "NO ACTION",
+        onUpdate: column.references.onUpdate ?? "NO ACTION"
+      } : null;
+      const actualReference = liveReference ? {
+        table: liveReference.table,
+        column: liveReference.to,
+        onDelete: liveReference.on_delete,
+        onUpdate: liveReference.on_update
+      } : null;
+      if (JSON.stringify(expectedReference) !== JSON.stringify(actualReference)) {
+        changes.push({ property: 'references', expected: expectedReference, actual: actualReference });
+      }
+
+      if (changes.length > 0) {
+        tableDiff.columns.changed.push({ name: column.name, changes });
+        tableDiff.requiresRebuild = true;
+      }
+    }
+
+    for (const live of liveColumns) {
+      if (!tableSchema.columns.some(col => col.name === live.name)) {
+        tableDiff.columns.removed.push(live.name);
+        tableDiff.requiresRebuild = true;
+      }
+    }
+
+    // Expression keys have no column name in index_info; their text is looked up in the index SQL
+    const indexKeysMatch = (index: IndexSchema, liveName: string): boolean => {
+      const liveKeys = indexColumns(liveName);
+      if (liveKeys.length !== index.columns.length) return false;
+      const { sql } = this.databaseInstance.prepare(
+        "SELECT sql FROM sqlite_master WHERE type='index' AND name = ?"
+      ).get(liveName) as { sql: string };
+      const expressions = this.buildIndexKeys(index);
+      return index.columns.every((key, i) =>
+        typeof key === "string" ? liveKeys[i] === key : liveKeys[i] === null && sql.includes(expressions[i]!)
+      );
+    };
+
+    const liveIndexes = liveIndexList.filter(index => index.origin === "c");
+    for (const index of tableSchema.indexes ?? []) {
+      const live = liveIndexes.find(liveIndex => liveIndex.name === index.name);
+      if (!live) {
+        tableDiff.indexes.added.push(index.name);
+      } else if (!!index.unique !== (live.unique === 1) || !indexKeysMatch(index, live.name)) {
+        tableDiff.indexes.changed.push(index.name);
+      }
+    }
+    for (const live of liveIndexes) {
+      if (!(tableSchema.indexes ?? []).some(index => index.name === live.name)) {
+        tableDiff.indexes.removed.push(live.name);
+      }
+    }
+
+    return tableDiff;
+  }
+
+  /**
+   * Builds the table-rebuild statements for changes ALTER TABLE cannot express
+   * Columns present in both versions are copied, new columns get their defaults
+   */
+  private buildRebuildTableQueries(tableSchema: TableSchema): string[] {
+    const liveColumns = (this.databaseInstance.prepare(`PRAGMA table_info(${tableSchema.name})`).all() as Array<{ name: string }>)
+      .map(col => col.name);
+    const sharedColumns = tableSchema.columns
+      .map(col => col.name)
+      .filter(name => liveColumns.includes(name))
+      .join(", ");
+    const tempName = `_rebuild_${tableSchema.name}`;
+
+    return [
+      this.buildCreateTableQuery({ ...tableSchema, name: tempName }),
+      `INSERT INTO ${tempName} (${sharedColumns}) SELECT ${sharedColumns} FROM ${tableSchema.name}`,
+      `DROP TABLE ${tableSchema.name}`,
+      `ALTER TABLE ${tempName} RENAME TO ${tableSchema.name}`,
+      ...this.buildCreateIndexQueries(tableSchema),
+      // Dropping the old table dropped its sync triggers
+      ...this.buildFullTextQueries(tableSchema),
+      ...(tableSchema.fullText
+        ? [`INSERT INTO ${fullTextTableName(tableSchema.name)}(${fullTextTableName(tableSchema.name)}) VALUES ('rebuild')`]
+        : [])
+    ];
+  }
+
+  /**
+   * Executes multiple SQL statements within a single transaction
+   * Ensures atomicity - either all statements succeed or all are rolled back
+   * Provides better performance for bulk operations and data consistency
+   * 
+   * @param statements - Array of SQL statements to execute in sequence
+   * 
+   * @example
+   * ```typescript
+   * const dbManager = new DatabaseManager();
+   * 
+   * // Execute multiple related operations atomically
+   * dbManager.executeTransaction([
+   *   "INSERT INTO users (name, email) VALUES ('John', 'john@example.com')",
+   *   "INSERT INTO profiles (user_id, bio) VALUES (1, 'Software developer')",
+   *   "UPDATE users SET status = 'active' WHERE id = 1"
+   * ]);
+   * 
+   * // Complex data migration
+   * const migrationStatements = [
+   *   "ALTER TABLE users ADD COLUMN created_at INTEGER",
+   *   "UPDATE users SET created_at = strftime('%s', 'now') WHERE created_at IS NULL",
+   *   "CREATE INDEX idx_users_created_at ON users(created_at)"
+   * ];
+   * dbManager.executeTransaction(migrationStatements);
+   * ```
+   * 
+   * @throws {Error} When any statement in the transaction fails, causing complete rollback
+   */
+  executeTransaction(statements: string[]): void {
+    const transaction = this.databaseInstance.transaction(() => {
+      for (const statement of statements) {
         this.databaseInstance.exec(statement);
       }
     });
 
     try {
       transaction();
+      this.pool?.invalidateCachedQueries();
       console.log(`Executed ${statements.length} statements in transaction`);
     } catch (error) {
       throw new Error(`Transaction failed: ${error}`);
     }
   }
 
+  /**
+   * Runs typed Table operations atomically across any number of tables
+   * Commits when the callback returns (or its promise resolves) and rolls back when it throws (or rejects).
+   * Calling `tx.transaction()` inside the callback opens a nested SAVEPOINT that can fail on its own.
+   * Async callbacks wait for the async transactions started before them on the same connection,
+   * so concurrent requests never share a transaction.
+   * 
+   * @param callback - Receives a scope whose `getTable()` operates inside the transaction
+   * @param options.mode - Locking mode of the outermost transaction: DEFERRED (default), IMMEDIATE or EXCLUSIVE
+   * @returns The callback result, or a promise of it for async callbacks
+   * 
+   * @example
+   * ```typescript
+   * const orderId = dbManager.transaction(tx => {
+   *   const { lastInsertRowid } = tx.getTable('Orders').insert([{ userId: 1, total: 40 }]);
+   *   tx.getTable('Users').update({ where: { id: 1 }, values: { lastOrderAt: new Date() } });
+   *   return lastInsertRowid;
+   * }, { mode: 'IMMEDIATE' });
+   * 
+   * // Async callbacks keep the transaction open until the promise settles
+   * await dbManager.transaction(async tx => {
+   *   const rate = await fetchRate();
+   *   tx.getTable('Prices').update({ where: { currency: 'EUR' }, values: { rate } });
+   * });
+   * 
+   * // Nested savepoint: only the inner block is undone
+   * dbManager.transaction(tx => {
+   *   tx.getTable('Logs').insert([{ message: 'kept' }]);
+   *   try {
+   *     tx.transaction(inner => { inner.getTable('Logs').insert([{ message: 'undone' }]); throw new Error(); });
+   *   } catch { }
+   * });
+   * ```
+   * 
+   * @note Nest through `tx.transaction()`: calling `dbManager.transaction()` with an async callback
+   * inside another one waits for the outer transaction and never runs. Async-API writes
+   * (`insertAsync`, ...) of tables outside the scope wait as well, while synchronous writes on
+   * the shared connection still run inside the open transaction.
+   * @throws {Error} Rethrows the callback error after rolling back, or when a synchronous
+   * callback starts while an async transaction is open on the connection
+   */
+  transaction<R>(
+    callback: (tx: TransactionScope<Schema>) => R,
+    options: { mode?: TransactionMode } = {}
+  ): R {
+    const { mode = 'DEFERRED' } = options;
+    if (!TRANSACTION_MODES.includes(mode)) {
+      throw new Error(`Invalid transaction mode '${mode}', expected ${TRANSACTION_MODES.join(", ")}`);
+    }
+
+    const queue = writeQueueOf(this.databaseInstance);
+    if (isAsyncFunction(callback)) {
+      return queue.run(() => this.runTransaction(callback, mode, false)) as R;
+    }
+    if (this.databaseInstance.inTransaction) {
+      throw new Error("A transaction is already open on this connection: await it, or nest with tx.transaction()");
+    }
+
+    const result = this.runTransaction(callback, mode, false);
+    return (result instanceof Promise ? queue.hold(result) : result) as R;
+  }
+
+  /**
+   * Scope handed to a transaction callback; its `transaction()` opens savepoints in this transaction
+   */
+  private transactionScope(): TransactionScope<Schema> {
+    return {
+      getTable: (tableName, options) => this.tableOf(tableName, options, true),
+      transaction: (callback, options = {}) => this.runTransaction(callback, options.mode ?? 'DEFERRED', true),
+    };
+  }
+
+  private runTransaction<R>(callback: (tx: TransactionScope<Schema>) => R, mode: TransactionMode, nested: boolean): R {
+    const db = this.databaseInstance;
+    const savepoint = `tx_savepoint_${++transactionSavepointCounter}`;
+
+    db.exec(nested ? `SAVEPOINT ${savepoint}` : `BEGIN ${mode}`);
+
+    const commit = () => db.exec(nested ? `RELEASE ${savepoint}` : "COMMIT");
+    const rollback = () => {
+      if (nested) {
+        db.exec(`ROLLBACK TO ${savepoint}`);
+        db.exec(`RELEASE ${savepoint}`);
+      } else if (db.inTransaction) {
+        db.exec("ROLLBACK");
+      }
+    };
+
+    let result: R;
+    try {
+      result = callback(this.transactionScope());
+    } catch (error) {
+      rollback();
+      throw error;
+    }
+
+    if (result instanceof Promise) {
+      return result.then(
+        value => {
+          commit();
+          return value;
+        },
+        error => {
+          rollback();
+          throw error;
+        }
+      ) as R;
+    }
+
+    commit();
+    return result;
+  }
+
   /**
    * Performs a comprehensive database integrity check using SQLite's built-in validation
    * Detects corruption, consistency issues, and structural problems
@@ -1627,6 +2600,38 @@ export class DatabaseManager<Schema extends readonly TableSchema[]> extends Data
     }
   }
 
+  /**
+   * Creates a versioned migration runner bound to this database
+   * Applied migrations are tracked with checksums in the `_migrations` table
+   * 
+   * @param migrations - Migration definitions, or a directory of `.sql` migration files
+   * @returns Migrator exposing migrate(), rollback(n) and status()
+   * 
+   * @example
+   * ```typescript
+   * const dbManager = new DatabaseManager({ dbPath: './app.db', schema });
+   * 
+   * // From a directory of 0001_name.sql files with -- migrate:up / -- migrate:down sections
+   * const migrator = dbManager.migrator('./migrations');
+   * 
+   * const plan = migrator.migrate({ dryRun: true });
+   * plan.migrations.forEach(m => console.log(m.id, m.statements));
+   * 
+   * migrator.migrate();
+   * migrator.rollback(2);
+   * ```
+   * 
+   * @throws {Error} When migration ids are duplicated or the directory cannot be read
+   */
+  migrator(migrations: Migration[] | string): Migrator {
+    const definitions = typeof migrations === "string"
+      ? Migrator.loadFromDirectory(migrations)
+      : migrations;
+    return new Migrator(this.databaseInstance, definitions, {
+      onRun: () => this.pool?.invalidateCachedQueries()
+    });
+  }
+
   /**
    * Enable connection pooling for this database manager
    * @param poolConfig Optional pool configuration
@@ -1731,9 +2736,30 @@ export class DatabaseManager<Schema extends readonly TableSchema[]> extends Data
    * ```
    */
   static getGlobalPoolStats(): Record<string, PoolStats> {
-    // This would need to be implemented by maintaining a registry in AdvancedConnectionPool
-    // For now, return empty object as this would require refactoring the pool class
-    return {};
+    return AdvancedConnectionPool.getAllStats();
+  }
+
+  /**
+   * Renders the statistics of every open pool in the Prometheus text exposition format
+   * Samples are labelled with the pool name; acquire times and query latencies are
+   * exported as histograms in seconds.
+   * 
+   * @param options.prefix - Metric name prefix (default: "sqlite_pool")
+   * @returns The exposition text, to serve with the `text/plain; version=0.0.4` content type
+   * 
+   * @example
+   * ```typescript
+   * Bun.serve({
+   *   routes: {
+   *     '/metrics': () => new Response(DatabaseManager.getPoolMetrics(), {
+   *       headers: { 'Content-Type': 'text/plain; version=0.0.4' }
+   *     })
+   *   }
+   * });
+   * ```
+   */
+  static getPoolMetrics(options: { prefix?: string } = {}): string {
+    return formatPrometheusMetrics(AdvancedConnectionPool.getAllStats(), options.prefix);
   }
 
   /**
@@ -1753,6 +2779,23 @@ export class DatabaseManager<Schema extends readonly TableSchema[]> extends Data
     await AdvancedConnectionPool.closeAllPools();
   }
 
+  /**
+   * Closes the manager's pool (if pooling is enabled) and its database connection
+   * A pooled manager keeps its pool, reader connections and workers, and stays listed in
+   * `getGlobalPoolStats()` / `getPoolMetrics()`, until it is closed here or with `closePool()`.
+   *
+   * @example
+   * ```typescript
+   * const db = new DatabaseManager({ dbPath: './tenant-42.sqlite', schema, usePool: true });
+   * // ...
+   * await db.close();
+   * ```
+   */
+  async close(): Promise<void> {
+    await this.closePool();
+    this.databaseInstance.close();
+  }
+
   /**
    * Execute multiple operations in a transaction with automatic connection pooling
    * @param operations Array of operations to execute
@@ -1808,11 +2851,25 @@ export class DatabaseManager<Schema extends readonly TableSchema[]> extends Data
  */
 class Table<
   T extends Record<string, any>,
-  SELECT_FORMAT extends Record<string, any>
+  SELECT_FORMAT extends Record<string, any>,
+  TABLES extends Record<string, Record<string, any>> = Record<string, Record<string, any>>,
+  RELATIONS extends Record<string, Record<string, RelationSchema>> = Record<string, Record<string, RelationSchema>>,
+  NAME extends string = string
 > extends DatabaseInitializer {
   private readonly tableName: string;
   private readonly isDebugEnabled: boolean;
   private readonly schema: TableSchema["columns"];
+  private readonly relations: NonNullable<TableSchema["relations"]>;
+  private readonly validationMode: ValidationMode;
+  private readonly validator?: RecordValidator;
+  private readonly sharedMiddleware: readonly TableMiddleware<any, any>[];
+  private readonly middleware: TableMiddleware<T, SELECT_FORMAT, NAME>[] = [];
+  private readonly createTimeColumns: string[];
+  private readonly updateTimeColumns: string[];
+  private readonly softDeleteColumn?: string;
+  private readonly versionColumn?: string;
+  private readonly fullText?: FullTextSchema;
+  private readonly transactionScoped: boolean;
 
   constructor(config: {
     name: string;
@@ -1820,11 +2877,64 @@ class Table<
     schema: readonly TableSchema[] | TableSchema[];
     debug?: boolean;
     enableWAL?: boolean;
+    /** Runtime validation of written records against the schema (default: "warn", which logs and still writes) */
+    validation?: ValidationMode;
+    /** Hooks shared with other tables, run before the table's own hooks (used by DatabaseManager) */
+    middleware?: readonly TableMiddleware<any, any>[];
+    /** Connection pool of the DatabaseManager, whose writer must be `db` (used by DatabaseManager) */
+    pool?: AdvancedConnectionPool;
+    /** The table comes from a `transaction()` scope (used by DatabaseManager) */
+    transactionScoped?: boolean;
   }) {
-    super({ db: config.db, schema: config.schema });
+    super({ db: config.db, schema: config.schema, pool: config.pool });
     this.tableName = config.name;
     this.schema = config.schema?.find(s => s.name === config.name)?.columns || [];
+    this.relations = config.schema?.find(s => s.name === config.name)?.relations || {};
     this.isDebugEnabled = config.debug || false;
+    this.validationMode = config.validation ?? "warn";
+    if (this.validationMode !== "off" && this.schema.length > 0) {
+      this.validator = compileValidator(this.schema);
+    }
+    this.sharedMiddleware = config.middleware ?? [];
+    this.createTimeColumns = this.schema
+      .filter(col => col.type === "Date" && (col.autoCreateTime || col.autoUpdateTime))
+      .map(col => col.name);
+    this.updateTimeColumns = this.schema
+      .filter(col => col.type === "Date" && col.autoUpdateTime)
+      .map(col => col.name);
+    this.softDeleteColumn = config.schema?.find(s => s.name === config.name)?.softDelete?.column;
+    this.versionColumn = this.schema.find(col => col.type === "number" && col.version)?.name;
+    this.fullText = config.schema?.find(s => s.name === config.name)?.fullText;
+    this.transactionScoped = config.transactionScoped ?? false;
+  }
+
+  /**
+   * Registers lifecycle hooks for this table
+   * Write hooks run inside the same transaction as the write: before hooks may mutate
+   * `context.records` / `context.values` / `context.where`, and throwing from any write hook
+   * rejects the operation and rolls it back. Query hooks observe reads; `afterQuery` may
+   * mutate or replace `context.rows` of record queries (select, findFirst, paginate, paginateCursor).
+   * Upserts run the insert hooks; bulkInsert runs them once per batch.
+   * 
+   * @param middleware - Hooks to register, run in registration order
+   * @returns This table for chaining
+   * 
+   * @example
+   * ```typescript
+   * userTable.use({
+   *   beforeInsert: ({ records }) => {
+   *     for (const user of records) user.email = user.email.toLowerCase();
+   *   },
+   *   beforeDelete: ({ where }) => {
+   *     if (!('id' in where)) throw new Error('Users can only be deleted by id');
+   *   },
+   *   afterUpdate: ({ values, result }) => audit.log('users updated', values, result.changes)
+   * });
+   * ```
+   */
+  use(middleware: TableMiddleware<T, SELECT_FORMAT, NAME>): this {
+    this.middleware.push(middleware);
+    return this;
   }
 
   /**
@@ -1871,8 +2981,11 @@ class Table<
    * 
    * @param options - Query options excluding specific column selection
    * @param options.where - WHERE clause conditions with support for LIKE, OR, and comparison operations
+   * @param options.orderBy - Ordering by one or more columns, with optional NULLS FIRST/LAST
    * @param options.limit - Maximum number of records to return
    * @param options.skip - Number of records to skip (for pagination)
+   * @param options.cache - Serve the result from the pool's query cache for `ttl` ms (pooled managers);
+   *   hits skip query hooks, and writes to the table or its included relations invalidate the entry
    * @returns Array of complete records with all fields
    * 
    * @example
@@ -1900,7 +3013,20 @@ class Table<
    * const specificUsers = db.Users.select({
    *   where: { OR: [{ id: 1 }, { id: 2 }, { email: 'admin@example.com' }] }
    * });
-   * 
+   *
+   * // Cached for a minute on pooled managers, until the next write to Users
+   * const activeCached = db.Users.select({ where: { isActive: true }, cache: { ttl: 60000 } });
+   *
+   * // Nested boolean conditions - age > 30 OR (role = 'admin' AND NOT banned)
+   * const privileged = db.Users.select({
+   *   where: {
+   *     OR: [
+   *       { greaterThan: { age: 30 } },
+   *       { AND: [{ role: 'admin' }, { NOT: { banned: true } }] }
+   *     ]
+   *   }
+   * });
+   *
    * // Comparison operators - greater than, less than, etc.
    * const adultUsers = db.Users.select({
    *   where: { greaterThanOrEqual: { age: 18 } }
@@ -1914,6 +3040,15 @@ class Table<
    *   where: { greaterThan: { createdAt: Date.now() - (7 * 24 * 60 * 60 * 1000) } } // Last 7 days
    * });
    * 
+   * // Multi-column ordering
+   * const leaderboard = db.Users.select({
+   *   orderBy: [
+   *     { column: 'score', direction: 'DESC' },
+   *     { column: 'lastLogin', direction: 'DESC', nulls: 'last' }
+   *   ],
+   *   limit: 10
+   * });
+   * 
    * // Complex combined conditions
    * const complexQuery = db.Users.select({
    *   where: { 
@@ -1927,94 +3062,243 @@ class Table<
    */
 
   // Implementation
-  select<TSelect extends { [K in keyof T]?: true } | undefined>(
-    options?: DatabaseSelectOptions<T, TSelect>
-  ): Array<PreciseSelectedType<T, TSelect>> {
+  select<
+    TSelect extends { [K in keyof T]?: true } | undefined,
+    TInclude extends IncludeOptions<TABLES, RELATIONS, NAME> | undefined = undefined
+  >(
+    options?: DatabaseSelectOptions<T, TSelect> & { include?: TInclude; cache?: QueryCacheOptions }
+  ): Array<PreciseSelectedType<T, TSelect> & IncludedRelations<TABLES, RELATIONS, NAME, TInclude>> {
     this.validateSelectOptions(options);
 
-    // Handle empty OR conditions
-    if (options?.where && 'OR' in options.where &&
-      Array.isArray(options.where.OR) && options.where.OR.length === 0) {
-      return [];
-    }
-
-    const queryString = this.buildSelectQuery(options);
-    const params = this.extractQueryParameters(options);
+    const { sql: queryString, params } = this.buildSelectQuery(options);
+    const include = options?.include as Record<string, true | RelationInclude> | undefined;
 
     this.debugLog("Executing SELECT query", { queryString, params });
 
-    return this.executeWithErrorWrapper(() => {
-      const query = this.databaseInstance.prepare(queryString);
-      const results = query.all(...params) as Record<string, unknown>[];
-      query.finalize();
-      return results.map(row => this.restoreDataTypes(row));
-    }) as Array<Exclude<PreciseSelectedType<T, TSelect>, Record<string, never>>>;
+    const rows = this.cachedRead(options?.cache, queryString, params, this.includedTables(include), () => {
+      const rows = this.runQuery("select", queryString, params);
+      if (include) {
+        this.loadIncludes(rows, include);
+      }
+      return rows;
+    }, include);
+
+    return rows as Array<Exclude<PreciseSelectedType<T, TSelect>, Record<string, never>> & IncludedRelations<TABLES, RELATIONS, NAME, TInclude>>;
   }
 
   /**
-   * Inserts multiple records into the table with automatic transaction handling
-   * Provides type safety and automatic data type conversion for SQLite compatibility
-   * Uses prepared statements for optimal performance and SQL injection protection
+   * Streams selected records one at a time using the bun:sqlite statement iterator
+   * Rows are read lazily and their data types restored row by row, so memory use stays
+   * constant regardless of the table size. Works with both `for...of` and `for await...of`.
+   * The statement is finalized when iteration completes or the loop exits early.
    * 
-   * @param records - Array of records to insert, must match table schema type
+   * @param options - Same options as select(), without `include`
+   * @returns An iterator over the selected records
    * 
    * @example
    * ```typescript
-   * import { Database } from "bunext-js/database";
-   * 
-   * const db = Database();
-   * 
-   * // Insert single user
-   * db.Users.insert([{
-   *   id: 1,
-   *   name: 'John Doe',
-   *   email: 'john@example.com',
-   *   isActive: true,
-   *   metadata: { role: 'admin', department: 'IT' },
-   *   createdAt: new Date()
-   * }]);
-   * 
-   * // Insert multiple users in one transaction
-   * db.Users.insert([
-   *   { id: 2, name: 'Jane Smith', email: 'jane@example.com', isActive: true, createdAt: new Date() },
-   *   { id: 3, name: 'Bob Wilson', email: 'bob@example.com', isActive: false, createdAt: new Date() }
-   * ]);
+   * for (const user of userTable.iterate({ where: { isActive: true }, orderBy: { column: 'id' } })) {
+   *   processUser(user);
+   *   if (done) break; // Releases the statement
+   * }
    * 
-   * // Automatic type conversion happens:
-   * // - Date objects → Unix timestamps
-   * // - boolean values → 1/0 integers  
-   * // - Objects → JSON strings
+   * for await (const { id, email } of userTable.iterate({ select: { id: true, email: true } })) {
+   *   await sendEmail(id, email);
+   * }
    * ```
    * 
-   * @throws {Error} When no records provided, invalid data types, or database constraints violated
+   * @throws {Error} When options are invalid or the query fails
    */
-  insert(records: T[]): void {
-    if (!records || records.length === 0) {
-      throw new Error("No records provided for insertion");
-    }
-
-    const sampleRecord = records.at(0)!;
-    const columns = Object.keys(sampleRecord);
-    const queryString = `INSERT INTO ${this.tableName} (${columns.join(", ")}) VALUES (${columns.map(() => '?').join(", ")})`;
+  iterate<TSelect extends { [K in keyof T]?: true } | undefined = undefined>(
+    options?: DatabaseSelectOptions<T, TSelect>
+  ): IterableIterator<PreciseSelectedType<T, TSelect>> {
+    this.validateSelectOptions(options);
 
-    this.debugLog("Executing INSERT query", { queryString, recordCount: records.length });
+    const { sql: queryString, params } = this.buildSelectQuery(options);
 
-    return this.executeWithErrorWrapper(() => {
-      const insertStmt = this.databaseInstance.prepare(queryString);
-      const insertTransaction = this.databaseInstance.transaction((records: T[]) => {
-        for (const record of records) {
-          const formattedValues = this.formatRecordValuesForInsert(record, columns);
-          const result = insertStmt.run(...formattedValues);
-        }
-      });
+    this.debugLog("Executing ITERATE query", { queryString, params });
+    this.runBeforeQuery("iterate", queryString, params);
 
-      insertTransaction(records);
-      insertStmt.finalize();
-    });
+    const query = this.executeWithErrorWrapper(() => this.readConnection().prepare(queryString));
+    return this.iterateStatement(query, params) as IterableIterator<PreciseSelectedType<T, TSelect>>;
   }
 
-  /**
-   * Optimized bulk insertion for large datasets with configurable batch processing
+  private *iterateStatement(query: ReturnType<_BunDB['prepare']>, params: SQLParameter[]): IterableIterator<Record<string, unknown>> {
+    try {
+      for (const row of query.iterate(...params)) {
+        yield this.restoreDataTypes(row as Record<string, unknown>);
+      }
+    } finally {
+      query.finalize();
+    }
+  }
+
+  /**
+   * Searches the table's `fullText` columns with an FTS5 query, most relevant rows first
+   * The query uses FTS5 syntax: terms, "phrases", prefix*, AND / OR / NOT and `column:term` filters.
+   * Soft-deleted rows are excluded.
+   *
+   * @param query - FTS5 match expression
+   * @param options - Highlight, snippet, ranking, filter and limit options
+   *
+   * @example
+   * ```typescript
+   * const results = db.Posts.search("sqlite NOT mysql", {
+   *   highlight: { column: "title" },
+   *   snippet: { column: "body", tokens: 12 },
+   *   rank: { title: 10, body: 1 },
+   *   where: { published: true },
+   *   limit: 20
+   * });
+   *
+   * for (const { row, score, highlight, snippet } of results) {
+   *   console.log(row.id, score, highlight, snippet); // "Why <mark>SQLite</mark>?"
+   * }
+   * ```
+   *
+   * @returns Matching rows with their BM25 score and requested highlights / snippets
+   * @throws {Error} When the table has no `fullText` index, the query is empty or invalid, or an option names a column that is not indexed
+   */
+  search(query: string, options: SearchOptions<SELECT_FORMAT> = {}): SearchResult<SELECT_FORMAT>[] {
+    if (!this.fullText) {
+      throw new Error(`Table '${this.tableName}' has no fullText index`);
+    }
+    if (typeof query !== "string" || query.trim() === "") {
+      throw new Error("Search query cannot be empty");
+    }
+
+    const { highlight, snippet, rank = true, where, limit } = options;
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 0)) {
+      throw new Error("Limit must be a non-negative integer");
+    }
+
+    const ftsTable = fullTextTableName(this.tableName);
+    const key = this.schema.find(col => col.primary)!.name;
+    const indexedColumns = this.fullText.columns as readonly string[];
+    const columnIndex = (column: string, option: string): number => {
+      const index = indexedColumns.indexOf(column);
+      if (index === -1) {
+        throw new Error(`Column '${column}' in ${option} is not a fullText column of table '${this.tableName}'`);
+      }
+      return index;
+    };
+
+    const params: SQLParameter[] = [];
+    let weights = "";
+    if (typeof rank === "object") {
+      Object.keys(rank).forEach(column => columnIndex(column, "rank"));
+      const values = indexedColumns.map(column => (rank as Record<string, number | undefined>)[column] ?? 1);
+      if (values.some(weight => !Number.isFinite(weight))) {
+        throw new Error("Rank weights must be finite numbers");
+      }
+      weights = values.map(() => ", ?").join("");
+      params.push(...values);
+    }
+
+    const selections = [`${this.tableName}.*`, `-bm25(${ftsTable}${weights}) AS __score`];
+    if (highlight) {
+      selections.push(`highlight(${ftsTable}, ${columnIndex(highlight.column, "highlight")}, ?, ?) AS __highlight`);
+      params.push(highlight.open ?? "<mark>", highlight.close ?? "</mark>");
+    }
+    if (snippet) {
+      const tokens = snippet.tokens ?? 10;
+      if (!Number.isInteger(tokens) || tokens < 1 || tokens > 64) {
+        throw new Error("Snippet tokens must be an integer between 1 and 64");
+      }
+      selections.push(`snippet(${ftsTable}, ${columnIndex(snippet.column, "snippet")}, ?, ?, ?, ?) AS __snippet`);
+      params.push(snippet.open ?? "<mark>", snippet.close ?? "</mark>", snippet.ellipsis ?? "…", tokens);
+    }
+
+    let sql = `SELECT ${selections.join(", ")} FROM ${ftsTable}` +
+      ` JOIN ${this.tableName} ON ${this.tableName}.${key} = ${ftsTable}.rowid WHERE ${ftsTable} MATCH ?`;
+    params.push(query);
+
+    const condition = this.buildScopedCondition(where, this.tableName);
+    if (condition.sql) {
+      sql += ` AND (${condition.sql})`;
+      params.push(...condition.params);
+    }
+    if (rank !== false) sql += " ORDER BY __score DESC";
+    if (limit !== undefined) {
+      sql += " LIMIT ?";
+      params.push(limit);
+    }
+
+    this.debugLog("Executing SEARCH query", { sql, params });
+
+    return this.runQuery("search", sql, params).map(({ __score, __highlight, __snippet, ...row }) => {
+      const result: SearchResult<SELECT_FORMAT> = { row: row as SELECT_FORMAT, score: __score as number };
+      if (highlight) result.highlight = __highlight as string;
+      if (snippet) result.snippet = __snippet as string;
+      return result;
+    });
+  }
+
+  /**
+   * Inserts multiple records into the table with automatic transaction handling
+   * Provides type safety and automatic data type conversion for SQLite compatibility
+   * Uses prepared statements for optimal performance and SQL injection protection
+   * 
+   * @param records - Array of records to insert, must match table schema type
+   * 
+   * @example
+   * ```typescript
+   * import { Database } from "bunext-js/database";
+   * 
+   * const db = Database();
+   * 
+   * // Insert single user
+   * db.Users.insert([{
+   *   id: 1,
+   *   name: 'John Doe',
+   *   email: 'john@example.com',
+   *   isActive: true,
+   *   metadata: { role: 'admin', department: 'IT' },
+   *   createdAt: new Date()
+   * }]);
+   * 
+   * // Insert multiple users in one transaction
+   * db.Users.insert([
+   *   { id: 2, name: 'Jane Smith', email: 'jane@example.com', isActive: true, createdAt: new Date() },
+   *   { id: 3, name: 'Bob Wilson', email: 'bob@example.com', isActive: false, createdAt: new Date() }
+   * ]);
+   * 
+   * // Automatic type conversion happens:
+   * // - Date objects → Unix timestamps
+   * // - boolean values → 1/0 integers  
+   * // - Objects → JSON strings
+   * 
+   * // Affected rows and the last generated id
+   * const { changes, lastInsertRowid } = db.Users.insert([{ name: 'Ann', email: 'ann@example.com' }]);
+   * 
+   * // Generated columns and defaults through RETURNING
+   * const { rows } = db.Users.insert([{ name: 'Ben', email: 'ben@example.com' }], {
+   *   returning: { id: true, createdAt: true }
+   * });
+   * rows[0].id; // number, createdAt restored as Date
+   * ```
+   * 
+   * @returns `{ changes, lastInsertRowid }`, plus the `rows` selected by `returning`
+   * @throws {Error} When no records provided, invalid data types, or database constraints violated
+   */
+  insert<TReturning extends ReturningFields<SELECT_FORMAT> | undefined = undefined>(
+    records: T[],
+    options?: { returning?: TReturning }
+  ): WriteResultFor<SELECT_FORMAT, TReturning> {
+    if (!records || records.length === 0) {
+      throw new Error("No records provided for insertion");
+    }
+    records = this.withAutoTimestamps(records, this.createTimeColumns);
+
+    return this.runWithHooks("Insert", { table: this.tableName as NAME, records }, ({ records }) => {
+      this.validateRecords(records, false);
+      const write = this.buildInsertWrite(records, options?.returning);
+      return this.executeWithErrorWrapper(() => this.runWriteStatement(write.queryString, write.paramSets, write.returning));
+    }) as WriteResultFor<SELECT_FORMAT, TReturning>;
+  }
+
+  /**
+   * Optimized bulk insertion for large datasets with configurable batch processing
    * Processes records in batches to prevent memory overflow and improve performance
    * Returns array of inserted row IDs for tracking and reference
    * 
@@ -2049,29 +3333,43 @@ class Table<
     if (!records || records.length === 0) {
       throw new Error("No records provided for bulk insertion");
     }
+    records = this.withAutoTimestamps(records, this.createTimeColumns);
+    const hooked = this.hasHooks("Insert");
+    if (!hooked) this.validateRecords(records, false);
 
     const batches = this.chunk(records, batchSize);
     const insertedIds: number[] = [];
 
     return this.executeWithErrorWrapper(() => {
-      const sampleRecord = records.at(0)!;
-      const columns = Object.keys(sampleRecord);
-      const queryString = `INSERT INTO ${this.tableName} (${columns.join(", ")}) VALUES (${columns.map(() => '?').join(", ")})`;
-
-      const insertStmt = this.databaseInstance.prepare(queryString);
-      const bulkTransaction = this.databaseInstance.transaction((batch: T[]) => {
-        for (const record of batch) {
-          const formattedValues = this.formatRecordValuesForInsert(record, columns);
-          const result = insertStmt.run(...formattedValues);
-          insertedIds.push(result.lastInsertRowid as number);
-        }
-      });
+      // Hooks may change the columns of a batch, so each batch prepares the statement for its column set
+      const insertBatch = (batch: T[]): WriteResult => {
+        const columns = Object.keys(batch.at(0)!);
+        const queryString = `INSERT INTO ${this.tableName} (${columns.join(", ")}) VALUES (${columns.map(() => '?').join(", ")})`;
+
+        return this.withStatement(queryString, "write", insertStmt => {
+          const result: WriteResult = { changes: 0, lastInsertRowid: 0 };
+          for (const record of batch) {
+            const formattedValues = this.formatRecordValuesForInsert(record, columns);
+            const outcome = insertStmt.run(...formattedValues);
+            insertedIds.push(outcome.lastInsertRowid as number);
+            result.changes += outcome.changes;
+            result.lastInsertRowid = Number(outcome.lastInsertRowid);
+          }
+          return result;
+        });
+      };
+      // With insert hooks, each batch goes through them (and validation) inside its own transaction
+      const bulkTransaction = this.databaseInstance.transaction((batch: T[]) => hooked
+        ? this.runWithHooks("Insert", { table: this.tableName as NAME, records: batch }, ({ records }) => {
+          this.validateRecords(records, false);
+          return insertBatch(records);
+        })
+        : insertBatch(batch)
+      );
 
       for (const batch of batches) {
         bulkTransaction(batch);
       }
-
-      insertStmt.finalize();
       return insertedIds;
     });
   }
@@ -2108,46 +3406,74 @@ class Table<
    * ], ['userId', 'productId']); // Unique combination of userId + productId
    * ```
    * 
+   * On tables with a `version` column, a record's version is the expected version of the
+   * existing row: conflicting rows are only updated when it matches (records without one
+   * update unconditionally), and the stored version is incremented.
+   *
+   * @returns `{ changes, lastInsertRowid, version? }`, plus the `rows` selected by `options.returning`
+   * @throws {OptimisticLockError} When a record's version no longer matches the stored row
    * @throws {Error} When conflict columns don't exist or upsert operation fails
    */
-  upsert<K extends keyof T>(
+  upsert<K extends keyof T, TReturning extends ReturningFields<SELECT_FORMAT> | undefined = undefined>(
     records: T[],
     conflictColumns: K[],
-    updateColumns?: (keyof T)[]
-  ): void {
+    updateColumns?: (keyof T)[],
+    options?: { returning?: TReturning }
+  ): WriteResultFor<SELECT_FORMAT, TReturning> {
     if (!records || records.length === 0) {
       throw new Error("No records provided for upsert");
     }
+    records = this.withAutoTimestamps(records, this.createTimeColumns);
 
-    const sampleRecord = records.at(0)!;
-    const columns = Object.keys(sampleRecord);
-    const conflictCols = conflictColumns.map(String).join(", ");
+    return this.runWithHooks("Insert", { table: this.tableName as NAME, records }, ({ records }) => {
+      this.validateRecords(records, false);
 
-    const updateCols = updateColumns
-      ? updateColumns.map(col => `${String(col)} = excluded.${String(col)}`).join(", ")
-      : columns.filter(col => !conflictColumns.includes(col as K))
-        .map(col => `${col} = excluded.${col}`).join(", ");
-
-    const queryString = `
+      const sampleRecord = records.at(0)!;
+      const versionColumn = this.versionColumn;
+      // A record's version is the version it was read at, never a value to store
+      const columns = Object.keys(sampleRecord).filter(col => col !== versionColumn);
+      const conflictCols = conflictColumns.map(String).join(", ");
+
+      // Creation timestamps keep their original value when the row already exists
+      const assignments = updateColumns
+        ? updateColumns.map(String).filter(col => col !== versionColumn).map(col => `${col} = excluded.${col}`)
+        : columns.filter(col => !conflictColumns.includes(col as K))
+          .filter(col => !this.createTimeColumns.includes(col) || this.updateTimeColumns.includes(col))
+          .map(col => `${col} = excluded.${col}`);
+      if (versionColumn) assignments.push(`${versionColumn} = ${versionColumn} + 1`);
+
+      const queryString = `
       INSERT INTO ${this.tableName} (${columns.join(", ")})
       VALUES (${columns.map(() => '?').join(", ")})
-      ON CONFLICT(${conflictCols}) DO UPDATE SET ${updateCols}
-    `;
-
-    this.debugLog("Executing UPSERT query", { queryString, recordCount: records.length });
-
-    return this.executeWithErrorWrapper(() => {
-      const upsertStmt = this.databaseInstance.prepare(queryString);
-      const upsertTransaction = this.databaseInstance.transaction((records: T[]) => {
-        for (const record of records) {
-          const formattedValues = this.formatRecordValuesForInsert(record, columns);
-          upsertStmt.run(...formattedValues);
-        }
-      });
+      ON CONFLICT(${conflictCols}) DO UPDATE SET ${assignments.join(", ")}`;
+
+      this.debugLog("Executing UPSERT query", { queryString, recordCount: records.length });
+
+      if (versionColumn) {
+        const expectedVersions = records.map(record => (record as Record<string, any>)[versionColumn] ?? undefined);
+        return this.executeWithErrorWrapper(() => this.runVersionedWrite(
+          `${queryString} WHERE ? IS NULL OR ${this.tableName}.${versionColumn} = ?`,
+          records.map((record, index) => [
+            ...this.formatRecordValuesForInsert(record, columns),
+            expectedVersions[index] ?? null,
+            expectedVersions[index] ?? null
+          ]),
+          expectedVersions,
+          options?.returning,
+          index => this.findFirst({
+            where: Object.fromEntries(conflictColumns.map(col => [col, records[index]![col]])) as any,
+            deleted: 'include'
+          })
+        ));
+      }
 
-      upsertTransaction(records);
-      upsertStmt.finalize();
-    });
+      const returning = this.buildReturningClause(options?.returning);
+      return this.executeWithErrorWrapper(() => this.runWriteStatement(
+        queryString + returning,
+        records.map(record => this.formatRecordValuesForInsert(record, columns)),
+        !!returning
+      ));
+    }) as WriteResultFor<SELECT_FORMAT, TReturning>;
   }
 
   /**
@@ -2194,26 +3520,39 @@ class Table<
    * });
    * ```
    * 
+   * On tables with a `version` column, passing the version in `values` makes the update
+   * conditional on it; the stored version is incremented and returned as `version`.
+   *
+   * @returns `{ changes, lastInsertRowid, version? }`, plus the updated `rows` selected by `options.returning`
+   * @throws {OptimisticLockError} When the given version no longer matches the stored row
    * @throws {Error} When WHERE clause is missing/empty or update operation fails
    */
-  update(options: DatabaseUpdateOptions<T>): void {
-    this.validateUpdateOptions(options);
+  update<TReturning extends ReturningFields<SELECT_FORMAT> | undefined = undefined>(
+    options: DatabaseUpdateOptions<T> & { returning?: TReturning }
+  ): WriteResultFor<SELECT_FORMAT, TReturning> {
+    return this.runUpdate(options, 'exclude');
+  }
 
-    let queryString = `UPDATE ${this.tableName} SET `;
-    queryString += Object.keys(options.values).map(key => `${key} = ?`).join(", ");
-    queryString += ` ${this.buildWhereClause(options.where)}`;
+  // Soft-deleted rows are only reachable through `restore()` (scope "only")
+  private runUpdate<TReturning extends ReturningFields<SELECT_FORMAT> | undefined>(
+    options: DatabaseUpdateOptions<T> & { returning?: TReturning },
+    deleted: DeletedScope
+  ): WriteResultFor<SELECT_FORMAT, TReturning> {
+    this.validateUpdateOptions(options);
 
-    const setParams = this.parseParameters(Object.values(options.values));
-    const whereParams = this.extractWhereParameters(options.where);
-    const allParams = [...setParams, ...whereParams];
+    const [values] = this.withAutoTimestamps([options.values ?? {}], this.updateTimeColumns);
+    const context = { table: this.tableName as NAME, where: options.where, values: values! };
+    return this.runWithHooks("Update", context, ({ where: whereClause, values }) => {
+      this.validateRecords([values], true);
 
-    this.debugLog("Executing UPDATE query", { queryString, params: allParams });
+      const versionColumn = this.versionColumn;
+      if (versionColumn) {
+        return this.runVersionedUpdate(versionColumn, whereClause, values, options, deleted, options.returning);
+      }
 
-    return this.executeWithErrorWrapper(() => {
-      const query = this.databaseInstance.prepare(queryString);
-      query.run(...allParams);
-      query.finalize();
-    });
+      const write = this.buildUpdateWrite(whereClause, values, options, deleted, options.returning);
+      return this.executeWithErrorWrapper(() => this.runWriteStatement(write.queryString, write.paramSets, write.returning));
+    }) as WriteResultFor<SELECT_FORMAT, TReturning>;
   }
 
   /**
@@ -2262,27 +3601,129 @@ class Table<
    * });
    * ```
    * 
+   * On tables with `softDelete`, matching rows are marked deleted instead of removed;
+   * use `forceDelete()` to remove them.
+   *
+   * @returns `{ changes, lastInsertRowid }`, plus the deleted `rows` selected by `options.returning`
    * @throws {Error} When WHERE clause is missing/empty or delete operation fails
    */
-  delete(options: DatabaseDeleteOptions<T>): void {
-    this.validateDeleteOptions(options);
+  delete<TReturning extends ReturningFields<SELECT_FORMAT> | undefined = undefined>(
+    options: DatabaseDeleteOptions<T> & { returning?: TReturning }
+  ): WriteResultFor<SELECT_FORMAT, TReturning> {
+    return this.runDelete(options, false);
+  }
 
-    // Handle empty OR conditions
-    if (options.where && 'OR' in options.where &&
-      Array.isArray(options.where.OR) && options.where.OR.length === 0) {
-      return;
+  /**
+   * Permanently deletes records, including soft-deleted ones
+   * Same as `delete()` on tables without `softDelete`.
+   *
+   * @example
+   * ```typescript
+   * // Purge posts deleted before a cutoff date
+   * db.Posts.forceDelete({
+   *   where: { lessThan: { deletedAt: cutoffDate } }
+   * });
+   * ```
+   *
+   * @returns `{ changes, lastInsertRowid }`, plus the deleted `rows` selected by `options.returning`
+   * @throws {Error} When WHERE clause is missing/empty or delete operation fails
+   */
+  forceDelete<TReturning extends ReturningFields<SELECT_FORMAT> | undefined = undefined>(
+    options: DatabaseDeleteOptions<T> & { returning?: TReturning }
+  ): WriteResultFor<SELECT_FORMAT, TReturning> {
+    return this.runDelete(options, true);
+  }
+
+  /**
+   * Restores soft-deleted records by clearing their soft delete column
+   * Runs through `update()` hooks; rows that are not deleted are left untouched.
+   *
+   * @example
+   * ```typescript
+   * const { changes } = db.Posts.restore({ where: { id: 3 } });
+   * ```
+   *
+   * @returns `{ changes, lastInsertRowid }`, plus the restored `rows` selected by `options.returning`
+   * @throws {Error} When the table has no `softDelete` column or the WHERE clause is missing/empty
+   */
+  restore<TReturning extends ReturningFields<SELECT_FORMAT> | undefined = undefined>(
+    options: DatabaseDeleteOptions<T> & { returning?: TReturning }
+  ): WriteResultFor<SELECT_FORMAT, TReturning> {
+    if (!this.softDeleteColumn) {
+      throw new Error(`Table '${this.tableName}' does not use soft deletes`);
     }
+    return this.runUpdate({
+      where: options.where,
+      values: { [this.softDeleteColumn]: null } as Partial<T>,
+      returning: options.returning
+    }, 'only');
+  }
 
-    const queryString = `DELETE FROM ${this.tableName} ${this.buildWhereClause(options.where)}`;
-    const params = this.extractWhereParameters(options.where);
+  private runDelete<TReturning extends ReturningFields<SELECT_FORMAT> | undefined>(
+    options: DatabaseDeleteOptions<T> & { returning?: TReturning },
+    force: boolean
+  ): WriteResultFor<SELECT_FORMAT, TReturning> {
+    this.validateDeleteOptions(options);
+
+    return this.runWithHooks("Delete", { table: this.tableName as NAME, where: options.where }, ({ where: whereClause }) => {
+      const write = this.buildDeleteWrite(whereClause, force, options.returning);
+      return this.executeWithErrorWrapper(() => this.runWriteStatement(write.queryString, write.paramSets, write.returning));
+    }) as WriteResultFor<SELECT_FORMAT, TReturning>;
+  }
+
+  /**
+   * Compiles an INSERT of records sharing the columns of the first one
+   */
+  private buildInsertWrite(records: T[], returningFields?: Record<string, unknown>): CompiledWrite {
+    const columns = Object.keys(records.at(0)!);
+    const returning = this.buildReturningClause(returningFields);
+    const queryString = `INSERT INTO ${this.tableName} (${columns.join(", ")}) VALUES (${columns.map(() => '?').join(", ")})${returning}`;
+
+    this.debugLog("Executing INSERT query", { queryString, recordCount: records.length });
+
+    return {
+      queryString,
+      paramSets: records.map(record => this.formatRecordValuesForInsert(record, columns)),
+      returning: !!returning,
+    };
+  }
+
+  /**
+   * Compiles the UPDATE of a table without version column
+   */
+  private buildUpdateWrite(
+    whereClause: WhereClause<T>,
+    values: Record<string, unknown>,
+    json: JsonUpdateOperators<T>,
+    deleted: DeletedScope,
+    returningFields?: Record<string, unknown>
+  ): CompiledWrite {
+    const where = this.buildWhereClause(whereClause, undefined, deleted);
+    const assignments = this.buildUpdateAssignments(values, json);
+    const returning = this.buildReturningClause(returningFields);
+    const queryString = `UPDATE ${this.tableName} SET ${assignments.sql} ${where.sql}${returning}`;
+    const params = [...assignments.params, ...where.params];
+
+    this.debugLog("Executing UPDATE query", { queryString, params });
+
+    return { queryString, paramSets: [params], returning: !!returning };
+  }
+
+  /**
+   * Compiles a DELETE, or the UPDATE marking rows deleted on soft-delete tables unless forced
+   */
+  private buildDeleteWrite(whereClause: WhereClause<T>, force: boolean, returningFields?: Record<string, unknown>): CompiledWrite {
+    const softDelete = force ? undefined : this.softDeleteColumn;
+    const where = this.buildWhereClause(whereClause, undefined, force ? 'include' : 'exclude');
+    const returning = this.buildReturningClause(returningFields);
+    const queryString = softDelete
+      ? `UPDATE ${this.tableName} SET ${softDelete} = ? ${where.sql}${returning}`
+      : `DELETE FROM ${this.tableName} ${where.sql}${returning}`;
+    const params = softDelete ? [...this.parseParameters([new Date()]), ...where.params] : where.params;
 
     this.debugLog("Executing DELETE query", { queryString, params });
 
-    return this.executeWithErrorWrapper(() => {
-      const query = this.databaseInstance.prepare(queryString);
-      query.run(...params);
-      query.finalize();
-    });
+    return { queryString, paramSets: [params], returning: !!returning };
   }
 
   /**
@@ -2292,6 +3733,7 @@ class Table<
    * 
    * @param options - Optional counting configuration
    * @param options.where - WHERE clause conditions to filter records
+   * @param options.cache - Cache the count in the pool's query cache, as in select()
    * @returns Number of matching records
    * 
    * @example
@@ -2325,31 +3767,18 @@ class Table<
    * const totalPages = Math.ceil(totalRecords / pageSize);
    * ```
    */
-  count(options?: DatabaseCountOptions<T>): number {
-    // Handle empty OR conditions
-    if (options?.where && 'OR' in options.where &&
-      Array.isArray(options.where.OR) && options.where.OR.length === 0) {
-      return 0;
-    }
-
-    let queryString = `SELECT COUNT(*) as count FROM ${this.tableName}`;
-    let params: any[] = [];
-
-    if (options?.where) {
-      queryString += ` ${this.buildWhereClause(options.where)}`;
-      params = this.extractWhereParameters(options.where);
-    }
+  count(options?: DatabaseCountOptions<T> & { cache?: QueryCacheOptions }): number {
+    const { sql: queryString, params } = this.buildCountQuery(options);
 
     this.debugLog("Executing COUNT query", { queryString, params });
 
-    const result = this.executeWithErrorWrapper(() => {
-      const query = this.databaseInstance.prepare(queryString);
-      const result = query.get(...params) as { count: number };
-      query.finalize();
-      return result;
+    return this.cachedRead(options?.cache, queryString, params, [this.tableName], () => {
+      this.runBeforeQuery("count", queryString, params);
+      const result = this.executeWithErrorWrapper(() =>
+        this.withStatement(queryString, "read", query => query.get(...params) as { count: number })
+      );
+      return result.count;
     });
-
-    return result.count;
   }
 
   /**
@@ -2360,6 +3789,7 @@ class Table<
    * @param options - Search configuration options
    * @param options.where - WHERE clause conditions to filter records
    * @param options.select - Fields to select (all fields if not specified)
+   * @param options.cache - Cache the record in the pool's query cache, as in select()
    * @returns First matching record or null if none found
    * 
    * @example
@@ -2393,27 +3823,38 @@ class Table<
    *   where: { LIKE: { email: 'admin@%' } }
    * });
    * 
+   * // Most recently created user
+   * const newest = db.Users.findFirst({
+   *   orderBy: { column: 'createdAt', direction: 'DESC' }
+   * });
+   * 
    * // Safe null checking
    * const maybeUser = db.Users.findFirst({ where: { id: 999 } });
    * console.log(maybeUser?.name ?? 'User not found');
    * ```
    */
   findFirst(): SELECT_FORMAT | null;
-  findFirst(options: { where?: SelectWhereClause<SELECT_FORMAT> }): SELECT_FORMAT | null;
+  findFirst(options: { where?: SelectWhereClause<SELECT_FORMAT>; orderBy?: OrderBy<SELECT_FORMAT>; deleted?: DeletedScope; cache?: QueryCacheOptions }): SELECT_FORMAT | null;
 
   // Overload 2: Specific field selection - returns partial record or null with enhanced autocomplete
   findFirst<TSelect extends { [K in keyof SELECT_FORMAT]?: true }>(
-    options: { where?: SelectWhereClause<SELECT_FORMAT>; select: TSelect }
+    options: { where?: SelectWhereClause<SELECT_FORMAT>; select: TSelect; orderBy?: OrderBy<SELECT_FORMAT>; deleted?: DeletedScope; cache?: QueryCacheOptions }
   ): PreciseSelectedType<SELECT_FORMAT, TSelect> | null;
 
   // Implementation
   findFirst(options?: {
     where?: SelectWhereClause<SELECT_FORMAT>;
     select?: SelectFields<SELECT_FORMAT>;
+    orderBy?: OrderBy<SELECT_FORMAT>;
+    deleted?: DeletedScope;
+    cache?: QueryCacheOptions;
   }): any {
     if (!options?.select) {
       const results = this.select({
         where: options?.where as any,
+        orderBy: options?.orderBy as any,
+        deleted: options?.deleted,
+        cache: options?.cache,
         limit: 1
       });
       return results.length > 0 ? results[0] : null;
@@ -2421,6 +3862,9 @@ class Table<
       const results = this.select({
         where: options.where as any,
         select: options.select as any,
+        orderBy: options.orderBy as any,
+        deleted: options.deleted,
+        cache: options.cache,
         limit: 1
       });
       return results.length > 0 ? results[0] : null;
@@ -2474,23 +3918,23 @@ class Table<
    */
   exists(options?: {
     where?: SelectWhereClause<SELECT_FORMAT>;
+    deleted?: DeletedScope;
   }): boolean {
+    const where = this.buildWhereClause(options?.where, undefined, options?.deleted);
     let query = `SELECT 1 FROM ${this.tableName}`;
-    let params: (string | number)[] = [];
+    const params = where.params;
 
-    if (options?.where) {
-      query += ` ${this.buildWhereClause(options.where)}`;
-      params = this.extractWhereParameters(options.where);
+    if (where.sql) {
+      query += ` ${where.sql}`;
     }
 
     query += ` LIMIT 1`;
 
-    return this.executeWithErrorWrapper(() => {
-      const stmt = this.databaseInstance.prepare(query);
-      const result = stmt.get(...params);
-      stmt.finalize();
-      return !!result;
-    });
+    this.runBeforeQuery("exists", query, params);
+
+    return this.executeWithErrorWrapper(() =>
+      this.withStatement(query, "read", stmt => !!stmt.get(...params))
+    );
   }
 
   /**
@@ -2501,6 +3945,7 @@ class Table<
    * @param options - Distinct query configuration
    * @param options.column - Column name to get distinct values from
    * @param options.where - Optional WHERE clause to filter records
+   * @param options.orderBy - Optional ordering of the returned values
    * @param options.limit - Optional limit on number of distinct values returned
    * @returns Array of unique values from the specified column
    * 
@@ -2525,6 +3970,7 @@ class Table<
    * // Limited distinct values
    * const topCountries = db.Users.distinct({
    *   column: 'country',
+   *   orderBy: { column: 'country', direction: 'ASC' },
    *   limit: 10
    * });
    * 
@@ -2544,15 +3990,21 @@ class Table<
   distinct<K extends keyof SELECT_FORMAT>(options: {
     column: K;
     where?: SelectWhereClause<SELECT_FORMAT>;
+    orderBy?: OrderBy<SELECT_FORMAT>;
     limit?: number;
+    deleted?: DeletedScope;
   }): SELECT_FORMAT[K][] {
-    const { column, where, limit } = options;
+    const { column, where, orderBy, limit, deleted } = options;
     let query = `SELECT DISTINCT ${String(column)} FROM ${this.tableName}`;
-    let params: (string | number)[] = [];
+    const compiledWhere = this.buildWhereClause(where, undefined, deleted);
+    const params = compiledWhere.params;
+
+    if (compiledWhere.sql) {
+      query += ` ${compiledWhere.sql}`;
+    }
 
-    if (where) {
-      query += ` ${this.buildWhereClause(where)}`;
-      params = this.extractWhereParameters(where);
+    if (orderBy) {
+      query += ` ${this.buildOrderByClause(orderBy)}`;
     }
 
     if (limit) {
@@ -2562,9 +4014,7 @@ class Table<
     this.debugLog("Executing DISTINCT query", { query, params });
 
     return this.executeWithErrorWrapper(() => {
-      const stmt = this.databaseInstance.prepare(query);
-      const results = stmt.all(...params) as Record<string, unknown>[];
-      stmt.finalize();
+      const results = this.withStatement(query, "read", stmt => stmt.all(...params) as Record<string, unknown>[]);
 
       return results.map(row => {
         const restored = this.restoreDataTypes(row);
@@ -2621,32 +4071,152 @@ class Table<
    * });
    * ```
    */
-  aggregate<K extends keyof SELECT_FORMAT>(options: {
-    column: K;
-    functions: Array<'SUM' | 'AVG' | 'MIN' | 'MAX' | 'COUNT'>;
-    where?: SelectWhereClause<SELECT_FORMAT>;
-  }): Record<string, number> {
-    const { column, functions, where } = options;
-    const selectClauses = functions.map(fn => `${fn}(${String(column)}) as ${fn}`).join(', ');
-    let query = `SELECT ${selectClauses} FROM ${this.tableName}`;
-    let params: (string | number)[] = [];
-
-    if (where) {
-      query += ` ${this.buildWhereClause(where)}`;
-      params = this.extractWhereParameters(where);
-    }
+  aggregate<K extends keyof SELECT_FORMAT>(options: AggregateOptions<SELECT_FORMAT, K>): Record<string, number> {
+    const { sql: query, params } = this.buildAggregateQuery(options);
 
     this.debugLog("Executing AGGREGATE query", { query, params });
+    this.runBeforeQuery("aggregate", query, params);
 
     return this.executeWithErrorWrapper(() => {
-      const stmt = this.databaseInstance.prepare(query);
-      const result = stmt.get(...params) as Record<string, number>;
-      stmt.finalize();
+      const result = this.withStatement(query, "read", stmt => stmt.get(...params) as Record<string, number>);
 
       return result || {};
     });
   }
 
+  /**
+   * Groups records by one or more columns and computes typed aggregates per group
+   * Supports HAVING filters on the aggregates and ordering by group columns or aggregates
+   * 
+   * @param options - Grouping configuration
+   * @param options.by - Columns to group by; they are returned on every row
+   * @param options.where - Optional WHERE clause applied before grouping
+   * @param options._count - Include the number of rows per group
+   * @param options._sum / _avg / _min / _max - Columns to aggregate per group
+   * @param options.having - Conditions on the aggregates (`equals`, `not`, `gt`, `gte`, `lt`, `lte`)
+   * @param options.orderBy - Order by group columns (`{ column }`) or aggregates (`{ aggregate, column }`)
+   * @param options.limit / skip - Pagination over the groups
+   * @returns One row per group, keyed by the group columns
+   * 
+   * @example
+   * ```typescript
+   * const leaders = userTable.groupBy({
+   *   by: ['role'],
+   *   _count: true,
+   *   _sum: { score: true },
+   *   having: { _sum: { score: { gt: 100 } } },
+   *   orderBy: { aggregate: '_sum', column: 'score', direction: 'DESC' }
+   * });
+   * // [{ role: 'admin', _count: 3, _sum: { score: 420 } }, ...]
+   * ```
+   */
+  groupBy<
+    By extends keyof SELECT_FORMAT & string,
+    TOptions extends GroupByOptions<SELECT_FORMAT, By>
+  >(options: TOptions & { by: By[] }): Array<GroupByResult<SELECT_FORMAT, By, TOptions>> {
+    const { by, where, having, orderBy, limit, skip, deleted } = options;
+
+    if (!Array.isArray(by) || by.length === 0) {
+      throw new Error("groupBy requires at least one column in 'by'");
+    }
+    by.forEach(column => this.assertColumn(column, 'groupBy'));
+
+    const selections = by.map(column => String(column));
+    if (options._count) {
+      selections.push(`COUNT(*) AS "_count"`);
+    }
+    for (const aggregate of GROUP_BY_AGGREGATES) {
+      for (const column of Object.keys(options[aggregate] ?? {})) {
+        if (!options[aggregate]?.[column as keyof SELECT_FORMAT]) continue;
+        this.assertColumn(column, 'groupBy');
+        selections.push(`${GROUP_BY_FUNCTIONS[aggregate]}(${column}) AS "${aggregate}.${column}"`);
+      }
+    }
+
+    let query = `SELECT ${selections.join(", ")} FROM ${this.tableName}`;
+    const compiledWhere = this.buildWhereClause(where, undefined, deleted);
+    const params = [...compiledWhere.params];
+
+    if (compiledWhere.sql) {
+      query += ` ${compiledWhere.sql}`;
+    }
+
+    query += ` GROUP BY ${by.join(", ")}`;
+
+    if (having) {
+      const compiledHaving = this.compileHaving(having);
+      if (compiledHaving.sql) {
+        query += ` HAVING ${compiledHaving.sql}`;
+        params.push(...compiledHaving.params);
+      }
+    }
+
+    if (orderBy) {
+      const clauses = Array.isArray(orderBy) ? orderBy : [orderBy];
+      const terms = clauses.map(clause => {
+        const direction = clause.direction ?? 'ASC';
+        if (direction !== 'ASC' && direction !== 'DESC') {
+          throw new Error(`Invalid orderBy direction '${direction}', expected 'ASC' or 'DESC'`);
+        }
+        if (!('aggregate' in clause) || !clause.aggregate) {
+          const column = String((clause as OrderByClause<SELECT_FORMAT>).column);
+          if (!by.includes(column as By)) {
+            throw new Error(`Cannot order groups by '${column}': it is not a groupBy column`);
+          }
+          return `${column} ${direction}`;
+        }
+        if (clause.aggregate === '_count') {
+          return `COUNT(*) ${direction}`;
+        }
+        const column = String(clause.column);
+        this.assertColumn(column, 'groupBy');
+        if (!GROUP_BY_FUNCTIONS[clause.aggregate]) {
+          throw new Error(`Unknown aggregate '${clause.aggregate}' in groupBy orderBy`);
+        }
+        return `${GROUP_BY_FUNCTIONS[clause.aggregate]}(${column}) ${direction}`;
+      });
+      if (terms.length > 0) query += ` ORDER BY ${terms.join(", ")}`;
+    }
+
+    if (limit || skip) {
+      query += ` LIMIT ${limit || -1}`;
+    }
+    if (skip) {
+      query += ` OFFSET ${skip}`;
+    }
+
+    this.debugLog("Executing GROUP BY query", { query, params });
+
+    return this.executeWithErrorWrapper(() => {
+      const results = this.withStatement(query, "read", stmt => stmt.all(...params) as Record<string, unknown>[]);
+
+      return results.map(result => {
+        const keys: Record<string, unknown> = {};
+        const aggregates: Record<string, Record<string, unknown>> = {};
+        let count: unknown;
+
+        for (const [alias, value] of Object.entries(result)) {
+          const separator = alias.indexOf(".");
+          if (alias === "_count") {
+            count = value;
+          } else if (separator === -1) {
+            keys[alias] = value;
+          } else {
+            (aggregates[alias.slice(0, separator)] ??= {})[alias.slice(separator + 1)] = value;
+          }
+        }
+
+        const row: Record<string, unknown> = this.restoreDataTypes(keys);
+        if (options._count) row._count = count;
+        for (const [aggregate, values] of Object.entries(aggregates)) {
+          // MIN/MAX keep the column type (e.g. Date), SUM/AVG are plain numbers
+          row[aggregate] = aggregate === '_min' || aggregate === '_max' ? this.restoreDataTypes(values) : values;
+        }
+        return row as GroupByResult<SELECT_FORMAT, By, TOptions>;
+      });
+    });
+  }
+
   /**
    * Provides paginated results with comprehensive metadata for building user interfaces
    * Efficiently handles large datasets by fetching only requested page data
@@ -2657,7 +4227,8 @@ class Table<
    * @param options.pageSize - Number of records per page
    * @param options.where - Optional WHERE clause to filter records
    * @param options.select - Optional field selection for performance optimization
-   * @param options.orderBy - Optional sorting configuration
+   * @param options.orderBy - Optional sorting configuration (single column or array of columns)
+   * @param options.cache - Cache the page and its total in the pool's query cache, as in select()
    * @returns Pagination result with data and metadata
    * 
    * @example
@@ -2708,10 +4279,9 @@ class Table<
     pageSize: number;
     where?: SelectWhereClause<SELECT_FORMAT>;
     select?: Partial<OptionsFlags<SELECT_FORMAT>>;
-    orderBy?: {
-      column: keyof SELECT_FORMAT;
-      direction?: 'ASC' | 'DESC';
-    };
+    orderBy?: OrderBy<SELECT_FORMAT>;
+    deleted?: DeletedScope;
+    cache?: QueryCacheOptions;
   }): {
     data: SELECT_FORMAT[];
     total: number;
@@ -2719,45 +4289,32 @@ class Table<
     pageSize: number;
     totalPages: number;
   } {
-    const { page, pageSize, orderBy, where: whereClause, select: selectClause } = options;
+    const { page, pageSize, orderBy, where: whereClause, select: selectClause, deleted, cache } = options;
     const offset = (page - 1) * pageSize;
 
     // Get total count using raw query for compatibility
+    const compiledWhere = this.buildWhereClause(whereClause, undefined, deleted);
     let countQuery = `SELECT COUNT(*) as count FROM ${this.tableName}`;
-    let countParams: (string | number)[] = [];
+    const countParams = compiledWhere.params;
 
-    if (whereClause) {
-      countQuery += ` ${this.buildWhereClause(whereClause)}`;
-      countParams = this.extractWhereParameters(whereClause);
+    if (compiledWhere.sql) {
+      countQuery += ` ${compiledWhere.sql}`;
     }
 
-    const total = this.executeWithErrorWrapper(() => {
-      const stmt = this.databaseInstance.prepare(countQuery);
-      const result = stmt.get(...countParams) as { count: number };
-      stmt.finalize();
-      return result.count;
-    });
-
     // Build paginated query
-    const selectOptions: any = { where: whereClause, select: selectClause };
-    let query = this.buildSelectQuery(selectOptions);
-
-    if (orderBy) {
-      query += ` ORDER BY ${String(orderBy.column)} ${orderBy.direction || 'ASC'}`;
-    }
+    const selectOptions: any = { where: whereClause, select: selectClause, orderBy, deleted };
+    let { sql: query, params } = this.buildSelectQuery(selectOptions);
 
     query += ` LIMIT ${pageSize} OFFSET ${offset}`;
 
-    const params = this.extractQueryParameters(selectOptions);
-
     this.debugLog("Executing PAGINATED query", { query, params });
 
-    const data = this.executeWithErrorWrapper(() => {
-      const stmt = this.databaseInstance.prepare(query);
-      const results = stmt.all(...params) as Record<string, unknown>[];
-      stmt.finalize();
-      return results.map(row => this.restoreDataTypes(row)) as SELECT_FORMAT[];
-    });
+    const { total, data } = this.cachedRead(cache, `${countQuery}; ${query}`, [...countParams, ...params], [this.tableName], () => ({
+      total: this.executeWithErrorWrapper(() =>
+        this.withStatement(countQuery, "read", stmt => (stmt.get(...countParams) as { count: number }).count)
+      ),
+      data: this.runQuery("paginate", query, params) as SELECT_FORMAT[],
+    }));
 
     return {
       data,
@@ -2768,26 +4325,335 @@ class Table<
     };
   }
 
-  // Helper methods for validation
-  private validateSelectOptions(options?: DatabaseSelectOptions<T, any>): void {
-    if (options?.limit && options.limit < 0) {
-      throw new Error("Limit must be a positive number");
+  /**
+   * Keyset (cursor) pagination: stable under concurrent writes and without OFFSET or COUNT(*)
+   * Cursors are opaque strings encoding the ordering columns plus the primary key of a row.
+   * Page forward with `first` / `after`, backward with `last` / `before`.
+   * 
+   * @param options.first - Page size when paging forward (default: 20)
+   * @param options.after - Return rows after this cursor (typically `pageInfo.endCursor`)
+   * @param options.last - Page size when paging backward
+   * @param options.before - Return rows before this cursor (typically `pageInfo.startCursor`)
+   * @param options.orderBy - Ordering; the primary key is appended as a tie-breaker
+   * @param options.where - WHERE clause conditions, as in select()
+   * @param options.select - Field selection, as in select()
+   * @returns Page rows with `pageInfo` { hasNextPage, hasPreviousPage, startCursor, endCursor }
+   * 
+   * @example
+   * ```typescript
+   * const firstPage = userTable.paginateCursor({
+   *   first: 20,
+   *   where: { isActive: true },
+   *   orderBy: { column: 'createdAt', direction: 'DESC' }
+   * });
+   * 
+   * if (firstPage.pageInfo.hasNextPage) {
+   *   const nextPage = userTable.paginateCursor({
+   *     first: 20,
+   *     after: firstPage.pageInfo.endCursor!,
+   *     where: { isActive: true },
+   *     orderBy: { column: 'createdAt', direction: 'DESC' }
+   *   });
+   * }
+   * ```
+   * 
+   * @throws {Error} When the table has no primary key, both first and last are set, or a cursor is invalid
+   */
+  paginateCursor<TSelect extends { [K in keyof SELECT_FORMAT]?: true } | undefined = undefined>(options: {
+    first?: number;
+    after?: string;
+    last?: number;
+    before?: string;
+    where?: SelectWhereClause<SELECT_FORMAT>;
+    select?: TSelect;
+    orderBy?: OrderBy<SELECT_FORMAT>;
+    deleted?: DeletedScope;
+  } = {}): CursorPage<PreciseSelectedType<SELECT_FORMAT, TSelect>> {
+    const { after, before, where, select, orderBy, deleted } = options;
+    if (options.first !== undefined && options.last !== undefined) {
+      throw new Error("paginateCursor accepts either 'first' or 'last', not both");
     }
-    if (options?.skip && options.skip < 0) {
-      throw new Error("Skip must be a positive number");
+    const forward = options.last === undefined;
+    const pageSize = forward ? options.first ?? 20 : options.last!;
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+      throw new Error("Cursor page size must be a positive integer");
     }
-  }
 
-  private validateUpdateOptions(options: DatabaseUpdateOptions<T>): void {
-    if (!options.values || Object.keys(options.values).length === 0) {
-      throw new Error("Update values cannot be empty");
-    }
+    const ordering = this.buildCursorOrdering(orderBy);
+    const orderColumns = ordering.map(term => term.column);
 
-    if (!options.where) {
-      throw new Error("Update operation requires a WHERE clause for safety");
-    }
+    const selectedColumns = select
+      ? Object.keys(select).filter(column => (select as Record<string, boolean>)[column])
+      : null;
+    selectedColumns?.forEach(column => this.assertColumn(column, 'select'));
+    const projection = selectedColumns
+      ? [...new Set([...selectedColumns, ...orderColumns])].join(", ")
+      : "*";
 
-    // Check if WhereClause has any meaningful conditions
+    const conditions: string[] = [];
+    const params: SQLParameter[] = [];
+    const addCondition = (condition: CompiledQuery) => {
+      if (!condition.sql) return;
+      conditions.push(`(${condition.sql})`);
+      params.push(...condition.params);
+    };
+
+    const baseCondition = this.buildScopedCondition(where, undefined, deleted);
+    addCondition(baseCondition);
+    if (after) addCondition(this.buildKeysetCondition(ordering, this.decodeCursor(after, ordering.length), true));
+    if (before) addCondition(this.buildKeysetCondition(ordering, this.decodeCursor(before, ordering.length), false));
+
+    // Paging backward reads the reversed ordering and flips the rows afterwards
+    const orderTerms = ordering.map(({ column, ascending, nullsFirst }) => {
+      const asc = forward ? ascending : !ascending;
+      const first = forward ? nullsFirst : !nullsFirst;
+      return `${column} ${asc ? 'ASC' : 'DESC'} NULLS ${first ? 'FIRST' : 'LAST'}`;
+    });
+
+    let query = `SELECT ${projection} FROM ${this.tableName}`;
+    if (conditions.length > 0) query += ` WHERE ${conditions.join(" AND ")}`;
+    query += ` ORDER BY ${orderTerms.join(", ")} LIMIT ${pageSize + 1}`;
+
+    this.debugLog("Executing CURSOR PAGINATED query", { query, params });
+    const queryContext = this.runBeforeQuery("paginateCursor", query, params);
+
+    const rows = this.executeWithErrorWrapper(() =>
+      this.withStatement(query, "read", stmt => stmt.all(...params) as Record<string, unknown>[])
+    );
+
+    const hasMore = rows.length > pageSize;
+    const page = rows.slice(0, pageSize);
+    if (!forward) page.reverse();
+
+    const cursors = page.map(row => this.encodeCursor(orderColumns.map(column => row[column] as SQLParameter)));
+
+    // Whether rows exist on the other side of the cursor we paged from
+    const existsBeyond = (cursor: string | undefined, towardsEnd: boolean) => {
+      if (!cursor) return false;
+      const values = this.decodeCursor(cursor, ordering.length);
+      const beyond = this.buildKeysetCondition(ordering, values, towardsEnd);
+      const equal = {
+        sql: orderColumns.map(column => `${column} IS ?`).join(" AND "),
+        params: values,
+      };
+      const checks = [baseCondition, {
+        sql: beyond.sql === "0" ? equal.sql : `(${beyond.sql}) OR (${equal.sql})`,
+        params: beyond.sql === "0" ? equal.params : [...beyond.params, ...equal.params],
+      }].filter(check => check.sql);
+
+      const existsQuery = `SELECT 1 FROM ${this.tableName} WHERE ${checks.map(check => `(${check.sql})`).join(" AND ")} LIMIT 1`;
+      return this.executeWithErrorWrapper(() => {
+        const found = this.withStatement(existsQuery, "read", stmt => stmt.get(...checks.flatMap(check => check.params)));
+        return found !== null && found !== undefined;
+      });
+    };
+
+    const data = this.runAfterQuery(queryContext, page.map(row => {
+      const restored = this.restoreDataTypes(row);
+      if (selectedColumns) {
+        for (const column of orderColumns) {
+          if (!selectedColumns.includes(column)) delete restored[column];
+        }
+      }
+      return restored;
+    }));
+
+    return {
+      data: data as Array<PreciseSelectedType<SELECT_FORMAT, TSelect>>,
+      pageInfo: {
+        hasNextPage: forward ? hasMore : existsBeyond(before, true),
+        hasPreviousPage: forward ? existsBeyond(after, false) : hasMore,
+        startCursor: cursors[0] ?? null,
+        endCursor: cursors.at(-1) ?? null,
+      },
+    };
+  }
+
+  /**
+   * Promise-returning mirror of `select()` for pooled managers with `useWorkers`
+   * The query runs on a reader worker, so a heavy read does not block the event loop;
+   * Dates, booleans and JSON are restored on this thread. Without worker connections, or
+   * while a transaction is open on this manager, it runs like `select()`.
+   *
+   * @example
+   * ```typescript
+   * const db = new DatabaseManager({ dbPath: './app.sqlite', schema, usePool: true, poolConfig: { useWorkers: true } });
+   * const active = await db.getTable('Users').selectAsync({ where: { isActive: true }, limit: 100 });
+   * ```
+   */
+  async selectAsync<TSelect extends { [K in keyof T]?: true } | undefined = undefined>(
+    options?: DatabaseSelectOptions<T, TSelect>
+  ): Promise<Array<PreciseSelectedType<T, TSelect>>> {
+    const workers = this.asyncWorkers();
+    if (!workers) return this.select(options) as Array<PreciseSelectedType<T, TSelect>>;
+
+    this.validateSelectOptions(options);
+    const { sql: queryString, params } = this.buildSelectQuery(options);
+
+    this.debugLog("Executing SELECT query", { queryString, params });
+
+    return await this.runQueryAsync(workers, "select", queryString, params) as Array<PreciseSelectedType<T, TSelect>>;
+  }
+
+  /**
+   * Promise-returning mirror of `findFirst()`, run on a reader worker (see `selectAsync()`)
+   */
+  async findFirstAsync<TSelect extends { [K in keyof T]?: true } | undefined = undefined>(
+    options?: Omit<DatabaseSelectOptions<T, TSelect>, 'limit' | 'skip'>
+  ): Promise<PreciseSelectedType<T, TSelect> | null> {
+    const rows = await this.selectAsync({ ...options, limit: 1 });
+    return rows[0] ?? null;
+  }
+
+  /**
+   * Promise-returning mirror of `count()`, run on a reader worker (see `selectAsync()`)
+   */
+  async countAsync(options?: DatabaseCountOptions<T>): Promise<number> {
+    const workers = this.asyncWorkers();
+    if (!workers) return this.count(options);
+
+    const { sql: queryString, params } = this.buildCountQuery(options);
+
+    this.debugLog("Executing COUNT query", { queryString, params });
+
+    const [result] = await this.runQueryAsync(workers, "count", queryString, params) as Array<{ count: number }>;
+    return result!.count;
+  }
+
+  /**
+   * Promise-returning mirror of `aggregate()`, run on a reader worker (see `selectAsync()`)
+   */
+  async aggregateAsync<K extends keyof SELECT_FORMAT>(options: AggregateOptions<SELECT_FORMAT, K>): Promise<Record<string, number>> {
+    const workers = this.asyncWorkers();
+    if (!workers) return this.aggregate(options);
+
+    const { sql: query, params } = this.buildAggregateQuery(options);
+
+    this.debugLog("Executing AGGREGATE query", { query, params });
+
+    const [result] = await this.runQueryAsync(workers, "aggregate", query, params) as Array<Record<string, number>>;
+    return result || {};
+  }
+
+  /**
+   * Promise-returning mirror of `insert()`
+   * SQLite allows a single writer, so the insert runs on this manager's connection like every
+   * other write: it waits for the async writes and async transactions started before it and
+   * runs like `insert()` in its own event loop turn. Tables from a `transaction()` scope
+   * (`tx.getTable()`) belong to that transaction and run it right away.
+   *
+   * @example
+   * ```typescript
+   * const { lastInsertRowid } = await db.getTable('Users').insertAsync([{ name: 'Ada', email: 'ada@example.com' }]);
+   * ```
+   */
+  async insertAsync<TReturning extends ReturningFields<SELECT_FORMAT> | undefined = undefined>(
+    records: T[],
+    options?: { returning?: TReturning }
+  ): Promise<WriteResultFor<SELECT_FORMAT, TReturning>> {
+    return await this.queueWrite(() => this.insert(records, options));
+  }
+
+  /**
+   * Promise-returning mirror of `update()`, queued like `insertAsync()`
+   */
+  async updateAsync<TReturning extends ReturningFields<SELECT_FORMAT> | undefined = undefined>(
+    options: DatabaseUpdateOptions<T> & { returning?: TReturning }
+  ): Promise<WriteResultFor<SELECT_FORMAT, TReturning>> {
+    return await this.queueWrite(() => this.update(options));
+  }
+
+  /**
+   * Promise-returning mirror of `delete()`, queued like `insertAsync()`
+   */
+  async deleteAsync<TReturning extends ReturningFields<SELECT_FORMAT> | undefined = undefined>(
+    options: DatabaseDeleteOptions<T> & { returning?: TReturning }
+  ): Promise<WriteResultFor<SELECT_FORMAT, TReturning>> {
+    return await this.queueWrite(() => this.delete(options));
+  }
+
+  /**
+   * Reader workers serving the async API, or undefined when the read must run on this thread:
+   * no worker pool, or an open transaction on this manager's connection
+   */
+  private asyncWorkers(): WorkerPool | undefined {
+    if (this.databaseInstance.inTransaction) return undefined;
+    return this.pool?.getWorkers();
+  }
+
+  // A write of the transaction's own scope cannot wait for the queue its transaction holds
+  private queueWrite<R>(write: () => R): Promise<R> | R {
+    if (this.transactionScoped) return write();
+    return writeQueueOf(this.databaseInstance).run(async () => {
+      await new Promise(resolve => setImmediate(resolve));
+      return write();
+    });
+  }
+
+  // Worker counterpart of `runQuery()`; count and aggregate rows are not records, so like their sync
+  // versions they only reach `beforeQuery`
+  private async runQueryAsync(workers: WorkerPool, operation: QueryOperation, sql: string, params: SQLParameter[]): Promise<Record<string, unknown>[]> {
+    const context = this.runBeforeQuery(operation, sql, params);
+    const rows = await workers.read(sql, params);
+    if (operation === "count" || operation === "aggregate") return rows;
+    return this.runAfterQuery(context, rows.map(row => this.restoreDataTypes(row)));
+  }
+
+  // Helper methods for validation
+  /**
+   * Fills `autoCreateTime` / `autoUpdateTime` columns that are missing from written records
+   * Records are copied when filled, leaving the caller's objects untouched.
+   */
+  private withAutoTimestamps<R extends Record<string, any>>(records: R[], columns: string[]): R[] {
+    if (columns.length === 0) return records;
+
+    const now = new Date();
+    return records.map(record => {
+      const missing = columns.filter(column => record[column] === undefined);
+      if (missing.length === 0) return record;
+      return { ...record, ...Object.fromEntries(missing.map(column => [column, now])) };
+    });
+  }
+
+  /**
+   * Checks records against the schema according to the table's validation mode
+   * `partial` is used for update values, where omitted columns are left unchanged
+   *
+   * @throws {ValidationError} In strict mode, with every field-level issue of the batch
+   */
+  private validateRecords(records: Record<string, unknown>[], partial: boolean): void {
+    if (!this.validator) return;
+
+    const issues = records.flatMap((record, index) => this.validator!(record, { partial, index }));
+    if (issues.length === 0) return;
+
+    const error = new ValidationError(this.tableName, issues);
+    if (this.validationMode === "strict") {
+      throw error;
+    }
+    console.warn(`[Table:${this.tableName}] ${error.message}`, issues);
+  }
+
+  private validateSelectOptions(options?: DatabaseSelectOptions<T, any>): void {
+    if (options?.limit && options.limit < 0) {
+      throw new Error("Limit must be a positive number");
+    }
+    if (options?.skip && options.skip < 0) {
+      throw new Error("Skip must be a positive number");
+    }
+  }
+
+  private validateUpdateOptions(options: DatabaseUpdateOptions<T>): void {
+    const hasJsonOperations = JSON_UPDATE_OPERATORS.some(operator => Object.keys(options[operator] ?? {}).length > 0);
+    if ((!options.values || Object.keys(options.values).length === 0) && !hasJsonOperations) {
+      throw new Error("Update values cannot be empty");
+    }
+
+    if (!options.where) {
+      throw new Error("Update operation requires a WHERE clause for safety");
+    }
+
+    // Check if WhereClause has any meaningful conditions
     const hasConditions = this.hasValidWhereConditions(options.where);
     if (!hasConditions) {
       throw new Error("Update operation requires a non-empty WHERE clause for safety");
@@ -2806,32 +4672,23 @@ class Table<
     }
   }
 
-  private hasValidWhereConditions(where: WhereClause<T>): boolean {
-    // Check if the where clause is an empty object
-    if (Object.keys(where).length === 0) {
-      return false;
-    }
-
-    // Check if it's a simple Partial<T> with values
-    const directKeys = Object.keys(where).filter(key =>
-      !['LIKE', 'OR', 'greaterThan', 'lessThan', 'notEqual', 'greaterThanOrEqual', 'lessThanOrEqual'].includes(key)
-    );
-    if (directKeys.length > 0) return true;
-
-    // Check structured conditions
-    if ('LIKE' in where && where.LIKE && Object.keys(where.LIKE).length > 0) return true;
-    if ('OR' in where && where.OR && Array.isArray(where.OR) && where.OR.length > 0) return true;
-    if ('greaterThan' in where && where.greaterThan && Object.keys(where.greaterThan).length > 0) return true;
-    if ('lessThan' in where && where.lessThan && Object.keys(where.lessThan).length > 0) return true;
-    if ('notEqual' in where && where.notEqual && Object.keys(where.notEqual).length > 0) return true;
-    if ('greaterThanOrEqual' in where && where.greaterThanOrEqual && Object.keys(where.greaterThanOrEqual).length > 0) return true;
-    if ('lessThanOrEqual' in where && where.lessThanOrEqual && Object.keys(where.lessThanOrEqual).length > 0) return true;
-
-    return false;
+  private hasValidWhereConditions(where: Record<string, any>): boolean {
+    return Object.entries(where).some(([key, value]) => {
+      if (key === 'AND' || key === 'OR') {
+        return Array.isArray(value) && value.some(condition => this.hasValidWhereConditions(condition));
+      }
+      if (key === 'NOT') {
+        return !!value && this.hasValidWhereConditions(value);
+      }
+      if (key in WHERE_OPERATORS || key in WHERE_SET_OPERATORS || key in WHERE_NULL_OPERATORS || key === 'between') {
+        return !!value && Object.keys(value).length > 0;
+      }
+      return true;
+    });
   }
 
   // Helper methods for query building
-  private buildSelectQuery(options?: DatabaseSelectOptions<T, any>): string {
+  private buildSelectQuery(options?: DatabaseSelectOptions<T, any>): CompiledQuery {
     let query = "SELECT ";
 
     if (!options?.select) {
@@ -2845,8 +4702,13 @@ class Table<
 
     query += ` FROM ${this.tableName}`;
 
-    if (options?.where) {
-      query += ` ${this.buildWhereClause(options.where)}`;
+    const where = this.buildWhereClause(options?.where, undefined, options?.deleted);
+    if (where.sql) {
+      query += ` ${where.sql}`;
+    }
+
+    if (options?.orderBy) {
+      query += ` ${this.buildOrderByClause(options.orderBy)}`;
     }
 
     if (options?.limit) {
@@ -2857,137 +4719,859 @@ class Table<
       query += ` OFFSET ${options.skip}`;
     }
 
-    return query;
+    return { sql: query, params: where.params };
+  }
+
+  private buildCountQuery(options?: DatabaseCountOptions<T>): CompiledQuery {
+    const where = this.buildWhereClause(options?.where, undefined, options?.deleted);
+    return { sql: `SELECT COUNT(*) as count FROM ${this.tableName} ${where.sql}`.trimEnd(), params: where.params };
   }
 
-  private buildWhereClause(where: SelectWhereClause<SELECT_FORMAT>): string;
-  private buildWhereClause(where: Partial<T> | { OR?: Partial<T>[] }): string;
-  private buildWhereClause(where: any): string {
-    if (!where || Object.keys(where).length === 0) {
-      return "";
+  private buildAggregateQuery(options: AggregateOptions<SELECT_FORMAT>): CompiledQuery {
+    const { column, functions, where, deleted } = options;
+    const selectClauses = functions.map(fn => `${fn}(${String(column)}) as ${fn}`).join(', ');
+    let query = `SELECT ${selectClauses} FROM ${this.tableName}`;
+    const compiledWhere = this.buildWhereClause(where, undefined, deleted);
+
+    if (compiledWhere.sql) {
+      query += ` ${compiledWhere.sql}`;
     }
 
-    const conditions: string[] = [];
+    return { sql: query, params: compiledWhere.params };
+  }
+
+  /**
+   * Resolves the ordering used by cursor pagination: the requested columns followed by the primary key
+   * NULL placement defaults to SQLite's (first when ascending, last when descending).
+   */
+  private buildCursorOrdering(orderBy?: OrderBy<any>): CursorOrderTerm[] {
+    const primaryColumns = this.schema.filter(col => col.primary).map(col => col.name);
+    if (primaryColumns.length === 0) {
+      throw new Error(`paginateCursor requires a primary key on table '${this.tableName}'`);
+    }
+
+    const clauses = (orderBy ? (Array.isArray(orderBy) ? orderBy : [orderBy]) : []) as OrderByClause<Record<string, unknown>>[];
+    const ordering = clauses.map(({ column, direction = 'ASC', nulls }) => {
+      this.assertColumn(String(column), 'orderBy');
+      if (direction !== 'ASC' && direction !== 'DESC') {
+        throw new Error(`Invalid orderBy direction '${direction}', expected 'ASC' or 'DESC'`);
+      }
+      const ascending = direction === 'ASC';
+      return { column: String(column), ascending, nullsFirst: nulls ? nulls === 'first' : ascending };
+    });
+
+    for (const column of primaryColumns) {
+      if (!ordering.some(term => term.column === column)) {
+        ordering.push({ column, ascending: true, nullsFirst: true });
+      }
+    }
+    return ordering;
+  }
+
+  /**
+   * Builds the keyset condition selecting rows strictly after (or before) a cursor position
+   * (a > x) OR (a IS x AND b > y) ..., with NULL placement handled per column
+   */
+  private buildKeysetCondition(ordering: CursorOrderTerm[], values: SQLParameter[], after: boolean): CompiledQuery {
+    const branches: string[] = [];
+    const params: SQLParameter[] = [];
+
+    ordering.forEach(({ column, ascending, nullsFirst }, index) => {
+      const asc = after ? ascending : !ascending;
+      const nullsBefore = after ? nullsFirst : !nullsFirst;
+      const value = values[index]!;
+
+      let comparison: string;
+      const comparisonParams: SQLParameter[] = [];
+      if (value === null) {
+        // Nothing sorts after NULL when NULLs come last
+        if (!nullsBefore) return;
+        comparison = `${column} IS NOT NULL`;
+      } else {
+        comparison = `${column} ${asc ? '>' : '<'} ?`;
+        comparisonParams.push(value);
+        if (!nullsBefore) comparison = `(${comparison} OR ${column} IS NULL)`;
+      }
+
+      const prefix = ordering.slice(0, index).map(term => `${term.column} IS ?`);
+      branches.push([...prefix, comparison].join(" AND "));
+      params.push(...values.slice(0, index), ...comparisonParams);
+    });
+
+    if (branches.length === 0) return { sql: "0", params: [] };
+    return { sql: branches.map(branch => `(${branch})`).join(" OR "), params };
+  }
+
+  private encodeCursor(values: SQLParameter[]): string {
+    return Buffer.from(JSON.stringify(values)).toString("base64url");
+  }
+
+  private decodeCursor(cursor: string, length: number): SQLParameter[] {
+    let values: unknown;
+    try {
+      values = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    } catch {
+      throw new Error("Invalid pagination cursor");
+    }
+    if (!Array.isArray(values) || values.length !== length ||
+      !values.every(value => value === null || typeof value === "string" || typeof value === "number")) {
+      throw new Error("Invalid pagination cursor");
+    }
+    return values;
+  }
+
+  /**
+   * Builds a ` RETURNING ...` suffix from a column selection, or "" when nothing is selected
+   */
+  private buildReturningClause(returning?: Record<string, unknown>): string {
+    if (!returning) return "";
+    const columns = Object.keys(returning).filter(column => returning[column]);
+    if (columns.length === 0) {
+      throw new Error("Returning selection must contain at least one column");
+    }
+    columns.forEach(column => this.assertColumn(column, 'returning'));
+    return ` RETURNING ${columns.join(", ")}`;
+  }
+
+  private getMiddleware(): TableMiddleware<T, SELECT_FORMAT, NAME>[] {
+    return this.sharedMiddleware.length > 0 ? [...this.sharedMiddleware, ...this.middleware] : this.middleware;
+  }
+
+  private hasHooks(operation: "Insert" | "Update" | "Delete"): boolean {
+    return this.getMiddleware().some(hooks => hooks[`before${operation}`] || hooks[`after${operation}`]);
+  }
+
+  /**
+   * Runs a write between its before/after hooks inside one transaction (a savepoint when nested)
+   * Hooks receive the same context object, so mutations made by before hooks reach the write.
+   */
+  private runWithHooks<C extends object, R extends WriteResult>(
+    operation: "Insert" | "Update" | "Delete",
+    context: C,
+    write: (context: C) => R
+  ): R {
+    if (!this.hasHooks(operation)) return write(context);
+
+    const middleware = this.getMiddleware();
+    return this.databaseInstance.transaction(() => {
+      for (const hooks of middleware) {
+        (hooks[`before${operation}`] as ((context: C) => void) | undefined)?.(context);
+      }
+      const result = write(context);
+      const afterContext = { ...context, result };
+      for (const hooks of middleware) {
+        (hooks[`after${operation}`] as ((context: C & { result: R }) => void) | undefined)?.(afterContext);
+      }
+      return result;
+    })();
+  }
 
-    // Handle LIKE operator
-    if ('LIKE' in where && where.LIKE) {
-      const likeConditions = Object.keys(where.LIKE).map(key => `${key} LIKE ?`);
-      conditions.push(...likeConditions);
+  private runBeforeQuery(operation: QueryOperation, sql: string, params: SQLParameter[]): QueryHookContext<NAME> {
+    const context: QueryHookContext<NAME> = { table: this.tableName as NAME, operation, sql, params };
+    for (const hooks of this.getMiddleware()) {
+      hooks.beforeQuery?.(context);
     }
+    return context;
+  }
+
+  private runAfterQuery<R extends Record<string, unknown>>(context: QueryHookContext<NAME>, rows: R[]): R[] {
+    const middleware = this.getMiddleware();
+    if (!middleware.some(hooks => hooks.afterQuery)) return rows;
 
-    // Handle comparison operators
-    if ('greaterThan' in where && where.greaterThan) {
-      const gtConditions = Object.keys(where.greaterThan).map(key => `${key} > ?`);
-      conditions.push(...gtConditions);
+    const afterContext = { ...context, rows: rows as unknown as SELECT_FORMAT[] };
+    for (const hooks of middleware) {
+      hooks.afterQuery?.(afterContext);
     }
+    return afterContext.rows as unknown as R[];
+  }
+
+  // Executes a record query with its query hooks, restoring data types
+  private runQuery(operation: QueryOperation, sql: string, params: SQLParameter[]): Record<string, unknown>[] {
+    const context = this.runBeforeQuery(operation, sql, params);
+
+    const rows = this.executeWithErrorWrapper(() => {
+      const results = this.withStatement(sql, "read", query => query.all(...params) as Record<string, unknown>[]);
+      return results.map(row => this.restoreDataTypes(row));
+    });
+
+    return this.runAfterQuery(context, rows);
+  }
+
+  /**
+   * Runs a write statement once per parameter set, in a single transaction, and aggregates the outcome
+   * With a RETURNING clause the produced rows are collected (types restored) and counted as changes.
+   */
+  private runWriteStatement(
+    queryString: string,
+    paramSets: SQLParameter[][],
+    returning: boolean
+  ): WriteResult & { rows?: Record<string, unknown>[] } {
+    const result: WriteResult & { rows?: Record<string, unknown>[] } = { changes: 0, lastInsertRowid: 0 };
+    if (returning) result.rows = [];
+
+    return this.withStatement(queryString, "write", statement => this.databaseInstance.transaction(() => {
+      for (const params of paramSets) {
+        if (returning) {
+          const rows = statement.all(...params) as Record<string, unknown>[];
+          result.rows!.push(...rows.map(row => this.restoreDataTypes(row)));
+          result.changes += rows.length;
+        } else {
+          const outcome = statement.run(...params);
+          result.changes += outcome.changes;
+          result.lastInsertRowid = Number(outcome.lastInsertRowid);
+        }
+      }
+      if (returning) {
+        const { id } = this.databaseInstance.query("SELECT last_insert_rowid() AS id").get() as { id: number };
+        result.lastInsertRowid = id;
+      }
+      return result;
+    })());
+  }
 
-    if ('lessThan' in where && where.lessThan) {
-      const ltConditions = Object.keys(where.lessThan).map(key => `${key} < ?`);
-      conditions.push(...ltConditions);
+  /**
+   * Update of a versioned table: `values[version]` is the expected version (checked when given),
+   * and the stored version is always incremented
+   */
+  private runVersionedUpdate(
+    versionColumn: string,
+    whereClause: WhereClause<T>,
+    values: Record<string, unknown>,
+    json: JsonUpdateOperators<T>,
+    deleted: DeletedScope,
+    returning?: Record<string, unknown>
+  ): WriteResult & { rows?: Record<string, unknown>[] } {
+    const { [versionColumn]: version, ...setValues } = values;
+    const expectedVersion = version as number | null | undefined ?? undefined;
+    const assignments = this.buildUpdateAssignments(setValues, json);
+
+    const condition = this.buildScopedCondition(whereClause, undefined, deleted);
+    const conditions = condition.sql ? [`(${condition.sql})`] : [];
+    const params = [...assignments.params, ...condition.params];
+    if (expectedVersion !== undefined) {
+      conditions.push(`${versionColumn} = ?`);
+      params.push(expectedVersion);
     }
 
-    if ('notEqual' in where && where.notEqual) {
-      const neConditions = Object.keys(where.notEqual).map(key => `${key} != ?`);
-      conditions.push(...neConditions);
+    const versionAssignment = `${versionColumn} = ${versionColumn} + 1`;
+    let queryString = `UPDATE ${this.tableName} SET ${assignments.sql ? `${assignments.sql}, ` : ""}${versionAssignment}`;
+    if (conditions.length > 0) queryString += ` WHERE ${conditions.join(" AND ")}`;
+
+    this.debugLog("Executing UPDATE query", { queryString, params });
+
+    return this.executeWithErrorWrapper(() => this.runVersionedWrite(
+      queryString,
+      [params],
+      [expectedVersion],
+      returning,
+      () => this.findFirst({ where: whereClause as SelectWhereClause<SELECT_FORMAT>, deleted })
+    ));
+  }
+
+  /**
+   * Runs a write on a versioned table, reading the new versions back through RETURNING
+   * A parameter set with an expected version that matches no row aborts the whole write
+   * with an `OptimisticLockError` carrying the current row.
+   */
+  private runVersionedWrite(
+    queryString: string,
+    paramSets: SQLParameter[][],
+    expectedVersions: Array<number | undefined>,
+    returning: Record<string, unknown> | undefined,
+    findCurrent: (index: number) => Record<string, unknown> | null
+  ): WriteResult & { rows?: Record<string, unknown>[] } {
+    const versionColumn = this.versionColumn!;
+    const keepVersion = !!returning?.[versionColumn];
+    const statementQuery = queryString + this.buildReturningClause({ ...returning, [versionColumn]: true });
+    const result: WriteResult & { rows?: Record<string, unknown>[] } = { changes: 0, lastInsertRowid: 0 };
+    if (returning) result.rows = [];
+
+    return this.withStatement(statementQuery, "write", statement => this.databaseInstance.transaction(() => {
+      paramSets.forEach((params, index) => {
+        const rows = statement.all(...params) as Record<string, unknown>[];
+        const expectedVersion = expectedVersions[index];
+        if (rows.length === 0 && expectedVersion !== undefined) {
+          throw new OptimisticLockError(this.tableName, expectedVersion, findCurrent(index));
+        }
+        result.changes += rows.length;
+        for (const row of rows) {
+          result.version = Number(row[versionColumn]);
+          if (!result.rows) continue;
+          const restored = this.restoreDataTypes(row);
+          if (!keepVersion) delete restored[versionColumn];
+          result.rows.push(restored);
+        }
+      });
+      const { id } = this.databaseInstance.query("SELECT last_insert_rowid() AS id").get() as { id: number };
+      result.lastInsertRowid = id;
+      return result;
+    })());
+  }
+
+  /**
+   * Compiles the SET list of an update: plain values first, then one nested expression
+   * per json column (`json_set`, then `json_remove`, then `json_insert` appends)
+   */
+  private buildUpdateAssignments(values: Record<string, unknown>, json: JsonUpdateOperators<T>): CompiledQuery {
+    const assignments = Object.keys(values).map(key => `${key} = ?`);
+    const params = this.parseParameters(Object.values(values));
+    const expressions = new Map<string, CompiledQuery>();
+
+    for (const operator of JSON_UPDATE_OPERATORS) {
+      for (const [column, operations] of Object.entries(json[operator] ?? {})) {
+        const list = (Array.isArray(operations) ? operations : [operations]) as Array<{ path: readonly (string | number)[]; value?: unknown }>;
+        if (list.length === 0) continue;
+        if (column in values) {
+          throw new Error(`Column '${column}' cannot be both in values and in ${operator}`);
+        }
+        if (!this.schema.some(col => col.name === column && col.type === "json")) {
+          throw new Error(`Operator '${operator}' requires a json column, got '${column}' in table '${this.tableName}'`);
+        }
+
+        const current = expressions.get(column) ?? { sql: column, params: [] };
+        const args: string[] = [];
+        const argParams: SQLParameter[] = [];
+        for (const { path, value } of list) {
+          if (operator !== "jsonArrayAppend" && (!Array.isArray(path) || path.length === 0)) {
+            throw new Error(`Operator '${operator}' requires a non-empty path for column '${column}'`);
+          }
+          if (operator === "jsonRemove") {
+            args.push(jsonPathLiteral(path));
+            continue;
+          }
+          if (value === undefined) {
+            throw new Error(`Operator '${operator}' requires a value for column '${column}'`);
+          }
+          // json() makes SQLite insert the value as JSON instead of a quoted string
+          args.push(jsonPathLiteral(path, operator === "jsonArrayAppend" ? "[#]" : ""), "json(?)");
+          argParams.push(JSON.stringify(value));
+        }
+
+        const fn = operator === "jsonSet" ? "json_set" : operator === "jsonRemove" ? "json_remove" : "json_insert";
+        expressions.set(column, {
+          sql: `${fn}(${current.sql}, ${args.join(", ")})`,
+          params: [...current.params, ...argParams]
+        });
+      }
     }
 
-    if ('greaterThanOrEqual' in where && where.greaterThanOrEqual) {
-      const gteConditions = Object.keys(where.greaterThanOrEqual).map(key => `${key} >= ?`);
-      conditions.push(...gteConditions);
+    for (const [column, expression] of expressions) {
+      assignments.push(`${column} = ${expression.sql}`);
+      params.push(...expression.params);
     }
+    return { sql: assignments.join(", "), params };
+  }
 
-    if ('lessThanOrEqual' in where && where.lessThanOrEqual) {
-      const lteConditions = Object.keys(where.lessThanOrEqual).map(key => `${key} <= ?`);
-      conditions.push(...lteConditions);
+  private assertColumn(column: string, context: string): void {
+    if (this.schema.length > 0 && !this.schema.some(col => col.name === column)) {
+      throw new Error(`Unknown column '${column}' in ${context} for table '${this.tableName}'`);
     }
+  }
 
-    // Handle OR operator
-    if ('OR' in where && where.OR && Array.isArray(where.OR)) {
-      const orConditions = where.OR.map((condition: any) => {
-        if (typeof condition === 'object' && condition !== null && 'LIKE' in condition && condition.LIKE) {
-          const likeConditions = Object.keys(condition.LIKE).map(key => `${key} LIKE ?`);
-          return likeConditions.join(" AND ");
+  /**
+   * Compiles groupBy `having` filters into a HAVING condition on the aggregate expressions
+   */
+  private compileHaving(having: Record<string, any>): CompiledQuery {
+    const fragments: string[] = [];
+    const params: SQLParameter[] = [];
+
+    const addFilters = (expression: string, filter: HavingFilter) => {
+      for (const [operator, operand] of Object.entries(filter)) {
+        const sqlOperator = HAVING_OPERATORS[operator as keyof HavingFilter];
+        if (!sqlOperator) {
+          throw new Error(`Unknown having operator '${operator}'`);
         }
-        const regularConditions = Object.keys(condition).map(key => `${key} = ?`);
-        return regularConditions.join(" AND ");
+        if (operand === null && (operator === 'equals' || operator === 'not')) {
+          fragments.push(`${expression} ${operator === 'equals' ? 'IS NULL' : 'IS NOT NULL'}`);
+          continue;
+        }
+        fragments.push(`${expression} ${sqlOperator} ?`);
+        params.push(...this.parseParameters([operand]));
+      }
+    };
+
+    for (const [key, value] of Object.entries(having)) {
+      if (key === '_count') {
+        addFilters("COUNT(*)", value);
+        continue;
+      }
+      const fn = GROUP_BY_FUNCTIONS[key as GroupByAggregate];
+      if (!fn) {
+        throw new Error(`Unknown having aggregate '${key}', expected _count, _sum, _avg, _min or _max`);
+      }
+      for (const [column, filter] of Object.entries(value ?? {})) {
+        this.assertColumn(column, 'having');
+        addFilters(`${fn}(${column})`, filter as HavingFilter);
+      }
+    }
+
+    return { sql: fragments.join(" AND "), params };
+  }
+
+  private buildOrderByClause(orderBy: OrderBy<T> | OrderBy<SELECT_FORMAT>, qualifier?: string): string {
+    const clauses = (Array.isArray(orderBy) ? orderBy : [orderBy]) as OrderByClause<Record<string, unknown>>[];
+    if (clauses.length === 0) return "";
+
+    const terms = clauses.map(({ column, direction = 'ASC', nulls }) => {
+      const columnName = String(column);
+      this.assertColumn(columnName, 'orderBy');
+      if (direction !== 'ASC' && direction !== 'DESC') {
+        throw new Error(`Invalid orderBy direction '${direction}', expected 'ASC' or 'DESC'`);
+      }
+      let term = `${qualifier ? `${qualifier}.` : ""}${columnName} ${direction}`;
+      if (nulls) term += ` NULLS ${nulls === 'first' ? 'FIRST' : 'LAST'}`;
+      return term;
+    });
+
+    return `ORDER BY ${terms.join(", ")}`;
+  }
+
+  /**
+   * Batch-loads the requested relations and attaches them to the parent rows
+   * Every relation costs one IN query, however many parents there are; nested includes recurse on the children.
+   */
+  private loadIncludes(rows: Record<string, unknown>[], include: Record<string, true | RelationInclude>): void {
+    for (const [name, includeOptions] of Object.entries(include)) {
+      if (!includeOptions) continue;
+
+      const relation = this.relations[name];
+      if (!relation) {
+        throw new Error(`Unknown relation '${name}' on table '${this.tableName}'`);
+      }
+
+      const target = new Table<Record<string, any>, Record<string, any>>({
+        name: relation.table,
+        db: this.databaseInstance,
+        schema: this.DBSchema,
+        debug: this.isDebugEnabled,
       });
-      conditions.push(`(${orConditions.join(" OR ")})`);
+      if (target.schema.length === 0) {
+        throw new Error(`Relation '${name}' targets unknown table '${relation.table}'`);
+      }
+
+      const options = includeOptions === true ? {} : includeOptions;
+      const parentKey = relation.type === 'belongsTo' ? relation.foreignKey : relation.localKey ?? 'id';
+      if (rows.length > 0 && !(parentKey in rows[0]!)) {
+        throw new Error(`Relation '${name}' requires column '${parentKey}' to be selected`);
+      }
+
+      const keys = [...new Set(rows.map(row => row[parentKey]).filter(key => key !== null && key !== undefined))];
+      const related = keys.length > 0 ? target.fetchRelated(relation, keys, options) : [];
+
+      if (options.include) {
+        target.loadIncludes(related.map(entry => entry.row), options.include);
+      }
+
+      const grouped = new Map<unknown, Record<string, unknown>[]>();
+      for (const { key, row } of related) {
+        const group = grouped.get(key);
+        if (group) group.push(row);
+        else grouped.set(key, [row]);
+      }
+
+      for (const row of rows) {
+        const matches = grouped.get(row[parentKey]) ?? [];
+        row[name] = relation.type === 'belongsTo' ? matches[0] ?? null : matches;
+      }
+    }
+  }
+
+  /**
+   * Loads the rows of this table related to the given parent keys, tagged with the key they belong to
+   * A per-parent `limit` is applied with ROW_NUMBER() so the relation still needs a single query.
+   */
+  private fetchRelated(
+    relation: RelationSchema,
+    keys: unknown[],
+    options: RelationInclude
+  ): Array<{ key: unknown; row: Record<string, unknown> }> {
+    let source = this.tableName;
+    let keyColumn: string;
+
+    switch (relation.type) {
+      case 'hasMany':
+        keyColumn = `${this.tableName}.${relation.foreignKey}`;
+        break;
+      case 'belongsTo':
+        keyColumn = `${this.tableName}.${relation.ownerKey ?? 'id'}`;
+        break;
+      case 'manyToMany': {
+        const { through } = relation;
+        keyColumn = `${through.table}.${through.sourceKey}`;
+        source += ` INNER JOIN ${through.table} ON ${through.table}.${through.targetKey} = ${this.tableName}.${relation.targetKey ?? 'id'}`;
+        break;
+      }
+    }
+
+    const where = this.buildScopedCondition(options.where, this.tableName);
+    const conditions = [`${keyColumn} IN (${keys.map(() => "?").join(", ")})`];
+    if (where.sql) conditions.push(`(${where.sql})`);
+    const params = [...this.parseParameters(keys), ...where.params];
+
+    const orderBy = options.orderBy ? this.buildOrderByClause(options.orderBy, this.tableName) : "";
+    const columns = `${this.tableName}.*, ${keyColumn} AS __relationKey`;
+    let queryString: string;
+
+    if (options.limit !== undefined) {
+      if (!Number.isInteger(options.limit) || options.limit < 0) {
+        throw new Error("Include limit must be a positive integer");
+      }
+      const rank = `ROW_NUMBER() OVER (PARTITION BY ${keyColumn} ${orderBy || `ORDER BY ${this.tableName}.rowid`}) AS __relationRank`;
+      queryString = `SELECT * FROM (SELECT ${columns}, ${rank} FROM ${source} WHERE ${conditions.join(" AND ")}) ` +
+        `WHERE __relationRank <= ${options.limit} ORDER BY __relationKey, __relationRank`;
+    } else {
+      queryString = `SELECT ${columns} FROM ${source} WHERE ${conditions.join(" AND ")} ${orderBy}`.trimEnd();
+    }
+
+    this.debugLog("Executing relation query", { queryString, params });
+
+    return this.executeWithErrorWrapper(() => {
+      const results = this.withStatement(queryString, "read", query => query.all(...params) as Record<string, unknown>[]);
+      return results.map(({ __relationKey, __relationRank, ...row }) => ({
+        key: __relationKey,
+        row: this.restoreDataTypes(row),
+      }));
+    });
+  }
+
+  /**
+   * Validates join definitions against the database schema and attaches the joined table's columns
+   */
+  private resolveJoins(joins: JoinDefinition[]): ResolvedJoin[] {
+    const aliases = new Set<string>([this.tableName]);
+
+    return joins.map(join => {
+      const columns = this.DBSchema.find(table => table.name === join.table)?.columns;
+      if (!columns) {
+        throw new Error(`Cannot join unknown table '${join.table}'`);
+      }
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(join.alias)) {
+        throw new Error(`Invalid join alias '${join.alias}'`);
+      }
+      if (aliases.has(join.alias)) {
+        throw new Error(`Duplicate join alias '${join.alias}', use 'as' to give the joined table another name`);
+      }
+      aliases.add(join.alias);
+
+      const pairs = Object.entries(join.on);
+      if (pairs.length === 0) {
+        throw new Error(`Join with '${join.table}' requires at least one column pair in 'on'`);
+      }
+      for (const [baseColumn, joinedColumn] of pairs) {
+        if (!this.schema.some(col => col.name === baseColumn)) {
+          throw new Error(`Unknown column '${baseColumn}' in join condition for table '${this.tableName}'`);
+        }
+        if (!columns.some(col => col.name === joinedColumn)) {
+          throw new Error(`Unknown column '${joinedColumn}' in join condition for table '${join.table}'`);
+        }
+      }
+
+      const softDeleteColumn = this.DBSchema.find(table => table.name === join.table)?.softDelete?.column;
+      return { ...join, columns, softDeleteColumn };
+    });
+  }
+
+  /**
+   * Builds the FROM ... JOIN ... WHERE part shared by joined selects and counts
+   * Conditions on a joined table go into its ON clause so LEFT joins keep unmatched base rows.
+   */
+  private buildJoinSource(joins: ResolvedJoin[], where?: WhereClause<any>, deleted?: DeletedScope): CompiledQuery {
+    let sql = `FROM ${this.tableName}`;
+    const params: SQLParameter[] = [];
+
+    for (const join of joins) {
+      const conditions = Object.entries(join.on).map(
+        ([baseColumn, joinedColumn]) => `${this.tableName}.${baseColumn} = ${join.alias}.${joinedColumn}`
+      );
+      const joinWhere = this.compileWhere(join.where ?? {}, join.alias);
+      if (joinWhere.sql) {
+        conditions.push(`(${joinWhere.sql})`);
+        params.push(...joinWhere.params);
+      }
+      // Soft-deleted rows of joined tables never match
+      if (join.softDeleteColumn) {
+        conditions.push(`${join.alias}.${join.softDeleteColumn} IS NULL`);
+      }
+      sql += ` ${join.type} JOIN ${join.table} AS ${join.alias} ON ${conditions.join(" AND ")}`;
+    }
+
+    const baseWhere = this.buildWhereClause(where, this.tableName, deleted);
+    if (baseWhere.sql) {
+      sql += ` ${baseWhere.sql}`;
+      params.push(...baseWhere.params);
+    }
+
+    return { sql, params };
+  }
+
+  /**
+   * Executes a joined select built by the query builder
+   * Base columns stay at the top level of each row; every joined table is nested under its alias
+   * and revived with its own schema. A LEFT join without a match yields `null`.
+   */
+  private selectWithJoins(options: DatabaseSelectOptions<any, any>, joins: JoinDefinition[]): Record<string, unknown>[] {
+    this.validateSelectOptions(options);
+    const resolved = this.resolveJoins(joins);
+
+    const baseColumns = options.select
+      ? Object.keys(options.select).filter(col => (options.select as Record<string, boolean>)[col])
+      : this.schema.map(col => col.name);
+    for (const column of baseColumns) {
+      if (!this.schema.some(col => col.name === column)) {
+        throw new Error(`Unknown column '${column}' in select for table '${this.tableName}'`);
+      }
     }
 
-    // Handle regular WHERE conditions (equality)
-    const regularFields = Object.keys(where).filter(key =>
-      !['LIKE', 'OR', 'greaterThan', 'lessThan', 'notEqual', 'greaterThanOrEqual', 'lessThanOrEqual'].includes(key)
+    const projections = [
+      ...baseColumns.map(column => `${this.tableName}.${column} AS "${this.tableName}.${column}"`),
+      ...resolved.flatMap(join => join.columns.map(col => `${join.alias}.${col.name} AS "${join.alias}.${col.name}"`))
+    ];
+
+    const source = this.buildJoinSource(resolved, options.where, options.deleted);
+    let queryString = `SELECT ${projections.join(", ")} ${source.sql}`;
+
+    if (options.orderBy) {
+      queryString += ` ${this.buildOrderByClause(options.orderBy, this.tableName)}`;
+    }
+    if (options.limit || options.skip) {
+      queryString += ` LIMIT ${options.limit || -1}`;
+    }
+    if (options.skip) {
+      queryString += ` OFFSET ${options.skip}`;
+    }
+
+    this.debugLog("Executing JOIN query", { queryString, params: source.params });
+
+    return this.executeWithErrorWrapper(() => {
+      const results = this.withStatement(queryString, "read", query => query.all(...source.params) as Record<string, unknown>[]);
+      return results.map(row => this.splitJoinedRow(row, resolved));
+    });
+  }
+
+  /**
+   * Counts the rows produced by a joined query built by the query builder
+   */
+  private countWithJoins(where: WhereClause<any> | undefined, joins: JoinDefinition[], deleted?: DeletedScope): number {
+    const source = this.buildJoinSource(this.resolveJoins(joins), where, deleted);
+    const queryString = `SELECT COUNT(*) as count ${source.sql}`;
+
+    this.debugLog("Executing JOIN count query", { queryString, params: source.params });
+
+    return this.executeWithErrorWrapper(() =>
+      this.withStatement(queryString, "read", query => (query.get(...source.params) as { count: number }).count)
     );
-    if (regularFields.length > 0) {
-      const equalityConditions = regularFields.map(key => `${key} = ?`);
-      conditions.push(...equalityConditions);
+  }
+
+  private splitJoinedRow(row: Record<string, unknown>, joins: ResolvedJoin[]): Record<string, unknown> {
+    const groups: Record<string, Record<string, unknown>> = {};
+    for (const [key, value] of Object.entries(row)) {
+      const separator = key.indexOf(".");
+      const alias = key.slice(0, separator);
+      (groups[alias] ??= {})[key.slice(separator + 1)] = value;
     }
 
-    return conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
-  }
+    const result = this.restoreDataTypes(groups[this.tableName] ?? {});
+    for (const join of joins) {
+      const joined = groups[join.alias] ?? {};
+      const primary = join.columns.find(col => col.primary);
+      const matched = primary
+        ? joined[primary.name] !== null
+        : Object.values(joined).some(value => value !== null);
+      result[join.alias] = matched ? this.restoreDataTypes(joined, join.columns) : null;
+    }
+    return result;
+  }
+
+  /**
+   * Compiles a where clause into a `WHERE ...` fragment and its bound parameters
+   * Returns an empty fragment when the clause has no constraints
+   * On soft-delete tables the `deleted` scope is added (deleted rows are excluded by default).
+   */
+  private buildWhereClause(
+    where?: WhereClause<T> | SelectWhereClause<SELECT_FORMAT>,
+    qualifier?: string,
+    deleted: DeletedScope = 'exclude'
+  ): CompiledQuery {
+    const condition = this.buildScopedCondition(where, qualifier, deleted);
+    return { sql: condition.sql ? `WHERE ${condition.sql}` : "", params: condition.params };
+  }
+
+  // Where condition combined with the soft delete scope, without the WHERE keyword
+  private buildScopedCondition(
+    where?: Record<string, any>,
+    qualifier?: string,
+    deleted: DeletedScope = 'exclude'
+  ): CompiledQuery {
+    const condition = where ? this.compileWhere(where, qualifier) : { sql: "", params: [] };
+    const scope = this.softDeleteCondition(deleted, qualifier);
+    if (!scope) return condition;
+    return { sql: condition.sql ? `(${condition.sql}) AND ${scope}` : scope, params: condition.params };
+  }
+
+  private softDeleteCondition(deleted: DeletedScope, qualifier?: string): string {
+    if (!this.softDeleteColumn || deleted === 'include') return "";
+    if (deleted !== 'exclude' && deleted !== 'only') {
+      throw new Error(`Invalid deleted scope '${deleted}', expected 'exclude', 'include' or 'only'`);
+    }
+    const column = qualifier ? `${qualifier}.${this.softDeleteColumn}` : this.softDeleteColumn;
+    return `${column} ${deleted === 'only' ? 'IS NOT NULL' : 'IS NULL'}`;
+  }
+
+  /**
+   * Recursively compiles a where clause tree into a SQL condition
+   * Fragments and parameters are emitted in the same pass so placeholders and values never drift apart.
+   * Sibling keys are ANDed; AND/OR take lists of nested clauses and NOT negates a nested clause.
+   * An empty OR matches nothing, while empty AND/NOT nodes add no constraint.
+   * When a qualifier is given, columns are emitted as `qualifier.column` (used by joins).
+   */
+  private compileWhere(where: Record<string, any>, qualifier?: string): CompiledQuery {
+    const fragments: string[] = [];
+    const params: SQLParameter[] = [];
+    const name = (column: string) => qualifier ? `${qualifier}.${column}` : column;
+
+    for (const [key, value] of Object.entries(where)) {
+      if (key === 'AND' || key === 'OR') {
+        const children = ((value ?? []) as Record<string, any>[]).map(child => this.compileWhere(child, qualifier));
+
+        if (key === 'OR' && children.length === 0) {
+          fragments.push("0");
+          continue;
+        }
+        // A branch without constraints makes the whole OR match everything
+        if (key === 'OR' && children.some(child => child.sql === "")) continue;
+
+        const constrained = children.filter(child => child.sql !== "");
+        if (constrained.length === 0) continue;
+
+        fragments.push(`(${constrained.map(child => child.sql).join(` ${key} `)})`);
+        constrained.forEach(child => params.push(...child.params));
+        continue;
+      }
+
+      if (key === 'NOT') {
+        const child = this.compileWhere(value ?? {}, qualifier);
+        if (child.sql) {
+          fragments.push(`NOT (${child.sql})`);
+          params.push(...child.params);
+        }
+        continue;
+      }
 
-  private extractQueryParameters(options?: DatabaseSelectOptions<T, any>): (string | number)[] {
-    if (!options?.where) return [];
-    return this.extractWhereParameters(options.where);
-  }
+      const operator = WHERE_OPERATORS[key as keyof typeof WHERE_OPERATORS];
+      if (operator) {
+        for (const [column, operand] of Object.entries(value ?? {})) {
+          if (operand === undefined) {
+            throw new Error(`Where operator '${key}' got undefined for column '${column}'; use null to compare with NULL`);
+          }
+          // Comparing with NULL through != never matches, so map it to IS NOT NULL
+          if (operand === null && key === 'notEqual') {
+            fragments.push(`${name(column)} IS NOT NULL`);
+            continue;
+          }
+          fragments.push(`${name(column)} ${operator} ?`);
+          params.push(...this.parseParameters([operand]));
+        }
+        continue;
+      }
 
-  private extractWhereParameters(where: SelectWhereClause<SELECT_FORMAT>): (string | number)[];
-  private extractWhereParameters(where: Partial<T> | { OR?: Partial<T>[] }): (string | number)[];
-  private extractWhereParameters(where: any): (string | number)[] {
-    if (!where) return [];
+      const setOperator = WHERE_SET_OPERATORS[key as keyof typeof WHERE_SET_OPERATORS];
+      if (setOperator) {
+        for (const [column, operands] of Object.entries(value ?? {})) {
+          if (!Array.isArray(operands)) {
+            throw new Error(`Operator '${key}' expects an array of values for column '${column}'`);
+          }
+          // An empty IN matches nothing and an empty NOT IN matches everything
+          if (operands.length === 0) {
+            if (key === 'in') fragments.push("0");
+            continue;
+          }
+          fragments.push(`${name(column)} ${setOperator} (${operands.map(() => "?").join(", ")})`);
+          params.push(...this.parseParameters(operands));
+        }
+        continue;
+      }
 
-    const parameters: (string | number)[] = [];
+      const nullOperator = WHERE_NULL_OPERATORS[key as keyof typeof WHERE_NULL_OPERATORS];
+      if (nullOperator) {
+        for (const [column, enabled] of Object.entries(value ?? {})) {
+          if (enabled) fragments.push(`${name(column)} ${nullOperator}`);
+        }
+        continue;
+      }
 
-    // Handle LIKE operator
-    if ('LIKE' in where && where.LIKE) {
-      parameters.push(...this.parseParameters(Object.values(where.LIKE)));
-    }
+      if (key === 'between') {
+        for (const [column, range] of Object.entries(value ?? {})) {
+          if (!Array.isArray(range) || range.length !== 2) {
+            throw new Error(`Operator 'between' expects a [min, max] tuple for column '${column}'`);
+          }
+          fragments.push(`${name(column)} BETWEEN ? AND ?`);
+          params.push(...this.parseParameters(range));
+        }
+        continue;
+      }
 
-    // Handle comparison operators
-    if ('greaterThan' in where && where.greaterThan) {
-      parameters.push(...this.parseParameters(Object.values(where.greaterThan)));
-    }
+      // A missing field (e.g. `{ email: body.email }`) must not turn into IS NULL and match every NULL row
+      if (value === undefined) {
+        throw new Error(`Where value for column '${key}' is undefined; use null to match NULL`);
+      }
+      if (value === null) {
+        fragments.push(`${name(key)} IS NULL`);
+        continue;
+      }
 
-    if ('lessThan' in where && where.lessThan) {
-      parameters.push(...this.parseParameters(Object.values(where.lessThan)));
-    }
+      if (isJsonPathFilter(value)) {
+        const filter = this.compileJsonPathFilter(name(key), value);
+        fragments.push(filter.sql);
+        params.push(...filter.params);
+        continue;
+      }
 
-    if ('notEqual' in where && where.notEqual) {
-      parameters.push(...this.parseParameters(Object.values(where.notEqual)));
+      fragments.push(`${name(key)} = ?`);
+      params.push(...this.parseParameters([value]));
     }
 
-    if ('greaterThanOrEqual' in where && where.greaterThanOrEqual) {
-      parameters.push(...this.parseParameters(Object.values(where.greaterThanOrEqual)));
-    }
+    return { sql: fragments.join(" AND "), params };
+  }
 
-    if ('lessThanOrEqual' in where && where.lessThanOrEqual) {
-      parameters.push(...this.parseParameters(Object.values(where.lessThanOrEqual)));
+  // `{ path, ...operators }` on a json column, compiled against json_extract(column, path)
+  private compileJsonPathFilter(column: string, filter: Record<string, any>): CompiledQuery {
+    const { path, ...operators } = filter;
+    if (path.length === 0) {
+      throw new Error(`JSON path filter on '${column}' requires a non-empty path`);
     }
-
-    // Handle OR operator
-    if ('OR' in where && where.OR && Array.isArray(where.OR)) {
-      for (const condition of where.OR) {
-        if (typeof condition === 'object' && condition !== null && 'LIKE' in condition && condition.LIKE) {
-          parameters.push(...this.parseParameters(Object.values(condition.LIKE)));
-        } else {
-          parameters.push(...this.parseParameters(Object.values(condition)));
+    const target = `json_extract(${column}, ${jsonPathLiteral(path)})`;
+    const fragments: string[] = [];
+    const params: SQLParameter[] = [];
+
+    for (const [operator, operand] of Object.entries(operators)) {
+      if (operand === undefined) continue;
+      if (operator === "in" || operator === "notIn") {
+        if (!Array.isArray(operand)) {
+          throw new Error(`Operator '${operator}' expects an array of values for JSON path on '${column}'`);
+        }
+        if (operand.length === 0) {
+          if (operator === "in") fragments.push("0");
+          continue;
         }
+        fragments.push(`${target} ${operator === "in" ? "IN" : "NOT IN"} (${operand.map(() => "?").join(", ")})`);
+        params.push(...this.parseParameters(operand));
+        continue;
+      }
+      if (operand === null && (operator === "equals" || operator === "notEqual")) {
+        fragments.push(`${target} ${operator === "equals" ? "IS NULL" : "IS NOT NULL"}`);
+        continue;
       }
+      fragments.push(`${target} ${JSON_PATH_OPERATORS[operator as keyof typeof JSON_PATH_OPERATORS]} ?`);
+      params.push(...this.parseParameters([operand]));
     }
 
-    // Handle regular WHERE conditions (equality)
-    const regularFields = Object.keys(where).filter(key =>
-      !['LIKE', 'OR', 'greaterThan', 'lessThan', 'notEqual', 'greaterThanOrEqual', 'lessThanOrEqual'].includes(key)
-    );
-    if (regularFields.length > 0) {
-      const regularValues = regularFields.map(key => where[key]);
-      parameters.push(...this.parseParameters(regularValues));
+    if (fragments.length === 0) {
+      throw new Error(`JSON path filter on '${column}' requires at least one operator`);
     }
-
-    return parameters;
+    return { sql: fragments.length === 1 ? fragments[0]! : `(${fragments.join(" AND ")})`, params };
   }
 
-  private parseParameters(params: unknown[]): (string | number)[] {
+  private parseParameters(params: unknown[]): SQLParameter[] {
     return params.map((param) => {
       if (typeof param === "number" || typeof param === "string") {
         return param;
@@ -3002,14 +5586,14 @@ class Table<
         return JSON.stringify(param);
       }
       if (param === null || param === undefined) {
-        return "";
+        return null;
       }
       return String(param);
     });
   }
 
-  private formatRecordForInsert(record: Record<string, unknown>): Record<string, string | number> {
-    const formatted: Record<string, string | number> = {};
+  private formatRecordForInsert(record: Record<string, unknown>): Record<string, SQLParameter> {
+    const formatted: Record<string, SQLParameter> = {};
 
     for (const [key, value] of Object.entries(record)) {
       const paramKey = `$${key}`;
@@ -3020,7 +5604,7 @@ class Table<
     return formatted;
   }
 
-  private formatRecordValuesForInsert(record: Record<string, unknown>, columns: string[]): Array<string | number> {
+  private formatRecordValuesForInsert(record: Record<string, unknown>, columns: string[]): SQLParameter[] {
     return columns.map(column => {
       const value = record[column];
       const [parsedValue] = this.parseParameters([value]);
@@ -3028,11 +5612,11 @@ class Table<
     });
   }
 
-  private restoreDataTypes(row: Record<string, unknown>): Record<string, unknown> {
+  private restoreDataTypes(row: Record<string, unknown>, columns: TableSchema["columns"] = this.schema): Record<string, unknown> {
     const restored: Record<string, unknown> = {};
 
     for (const [key, value] of Object.entries(row)) {
-      const column = this.schema.find(col => col.name === key);
+      const column = columns.find(col => col.name === key);
 
       if (!column) {
         restored[key] = value;
@@ -3051,7 +5635,7 @@ class Table<
           }
           break;
         case "boolean":
-          restored[key] = value === 1;
+          restored[key] = value === null ? null : value === 1;
           break;
         default:
           restored[key] = value;
@@ -3061,6 +5645,129 @@ class Table<
     return restored;
   }
 
+  /**
+   * Revives Date columns of a record parsed from JSON, where they arrive as ISO strings or timestamps
+   */
+  private reviveImportedRecord(record: Record<string, unknown>): Record<string, unknown> {
+    const revived = { ...record };
+    for (const column of this.schema) {
+      const value = revived[column.name];
+      if (column.type === "Date" && (typeof value === "string" || typeof value === "number")) {
+        revived[column.name] = new Date(value);
+      }
+    }
+    return revived;
+  }
+
+  /**
+   * Runs a statement on the connection serving the access
+   * Pooled tables write on the DatabaseManager's connection (the pool's single writer) and read from
+   * the pool's WAL readers, except while the writer holds an open transaction so its uncommitted
+   * changes stay visible. Pooled statements come from per-connection caches and stay prepared.
+   * Writes drop the cached query results of this table and of the tables referencing it.
+   */
+  private withStatement<TResult>(
+    queryString: string,
+    access: "read" | "write",
+    run: (statement: ReturnType<_BunDB['prepare']>) => TResult
+  ): TResult {
+    const db = access === "read" ? this.readConnection() : this.databaseInstance;
+    const pool = this.pool;
+    if (!pool) {
+      const statement = db.prepare(queryString);
+      try {
+        return run(statement);
+      } finally {
+        statement.finalize();
+      }
+    }
+
+    const startedAt = performance.now();
+    const cached = pool.cachesStatements();
+    const statement = cached ? pool.getPreparedStatement(queryString, queryString, db) : db.prepare(queryString);
+    try {
+      return run(statement);
+    } finally {
+      pool.recordQueryTime(performance.now() - startedAt);
+      if (!cached) statement.finalize();
+      if (access === "write") this.invalidateCachedReads();
+    }
+  }
+
+  /**
+   * Serves a read from the pool's query cache when `cache` is set, keyed by its SQL and parameters
+   * Reads inside a transaction bypass the cache since they may see uncommitted changes.
+   * Results are copied in and out of the cache, so callers can mutate what they get.
+   *
+   * @param tables - Tables the result depends on, whose writes invalidate it
+   */
+  private cachedRead<R>(
+    cache: QueryCacheOptions | undefined,
+    sql: string,
+    params: SQLParameter[],
+    tables: readonly string[],
+    read: () => R,
+    include?: Record<string, true | RelationInclude>
+  ): R {
+    if (!cache) return read();
+    if (cache.ttl !== undefined && !(cache.ttl > 0)) {
+      throw new Error("Cache ttl must be a positive number of milliseconds");
+    }
+    const pool = this.pool;
+    if (!pool || this.databaseInstance.inTransaction) return read();
+
+    const key = JSON.stringify([sql, params, this.includeKey(include)]);
+    const cached = pool.getCachedQuery<R>(key);
+    if (cached !== undefined) return structuredClone(cached);
+
+    const result = read();
+    pool.setCachedQuery(key, structuredClone(result), cache.ttl, tables);
+    return result;
+  }
+
+  // This table plus every table reached by the include tree (join tables of many-to-many relations included)
+  private includedTables(include?: Record<string, true | RelationInclude>, table: string = this.tableName): string[] {
+    const tables = new Set([table]);
+    const relations = this.DBSchema.find(schema => schema.name === table)?.relations ?? {};
+    for (const [name, options] of Object.entries(include ?? {})) {
+      const relation = relations[name];
+      if (!relation || !options) continue;
+      if (relation.type === 'manyToMany') tables.add(relation.through.table);
+      const nested = options === true ? undefined : options.include;
+      this.includedTables(nested, relation.table).forEach(target => tables.add(target));
+    }
+    return [...tables];
+  }
+
+  // The include tree with its relations sorted by name: relations load outside the SQL, so it is part of the cache key
+  private includeKey(include?: Record<string, true | RelationInclude>): unknown[] | null {
+    if (!include) return null;
+    return Object.keys(include).filter(name => include[name]).sort().map(name => {
+      const options = include[name]!;
+      if (options === true) return [name];
+      const { include: nested, ...filters } = options;
+      return [name, filters, this.includeKey(nested)];
+    });
+  }
+
+  // Foreign key actions (ON DELETE CASCADE, SET NULL, ...) can change the rows of referencing tables too
+  private invalidateCachedReads(): void {
+    if (!this.pool) return;
+    this.pool.invalidateCachedQueries(this.tableName);
+    for (const schema of this.DBSchema) {
+      if (schema.name !== this.tableName && schema.columns.some(column => column.references?.table === this.tableName)) {
+        this.pool.invalidateCachedQueries(schema.name);
+      }
+    }
+  }
+
+  private readConnection(): _BunDB {
+    if (!this.pool || this.databaseInstance.inTransaction) {
+      return this.databaseInstance;
+    }
+    return this.pool.getReader() ?? this.databaseInstance;
+  }
+
   private executeWithErrorWrapper<TResult>(callback: () => TResult): TResult {
     const maxRetries = 3;
     let retries = 0;
@@ -3111,12 +5818,13 @@ class Table<
    * Synchronizes data between tables with intelligent conflict resolution
    * Useful for data migration, replication, and maintaining data consistency
    * Provides progress tracking and detailed statistics on sync operations
+   * Source records are streamed with iterate(), so only one batch is held in memory at a time.
    * 
    * @param sourceTable - Source table to copy data from
    * @param options - Synchronization configuration
    * @param options.keyColumn - Column used to identify matching records between tables
    * @param options.conflictResolution - How to handle existing records ('replace' | 'ignore' | 'update')
-   * @param options.batchSize - Records to process per batch for memory management (default: 1000)
+   * @param options.batchSize - Records written per transaction (default: 1000)
    * @param options.onProgress - Callback function for progress monitoring
    * @returns Statistics object with counts of inserted, updated, and skipped records
    * 
@@ -3171,13 +5879,12 @@ class Table<
       keyColumn: String(keyColumn)
     });
 
-    const sourceData = sourceTable.select({}) as U[];
+    const total = sourceTable.count();
     const stats = { inserted: 0, updated: 0, skipped: 0 };
-
-    const batches = this.chunk(sourceData, batchSize);
     let processed = 0;
+    let batch: U[] = [];
 
-    for (const batch of batches) {
+    const syncBatch = this.databaseInstance.transaction(() => {
       for (const record of batch) {
         const keyValue = record[keyColumn];
         const existing = this.findFirst({
@@ -3220,13 +5927,24 @@ class Table<
 
         processed++;
         if (onProgress && processed % 100 === 0) {
-          onProgress(processed, sourceData.length);
+          onProgress(processed, total);
         }
       }
+    });
+
+    for (const record of sourceTable.iterate() as IterableIterator<U>) {
+      batch.push(record);
+      if (batch.length >= batchSize) {
+        syncBatch();
+        batch = [];
+      }
+    }
+    if (batch.length > 0) {
+      syncBatch();
     }
 
     if (onProgress) {
-      onProgress(sourceData.length, sourceData.length);
+      onProgress(processed, processed);
     }
 
     this.debugLog("Data sync completed", stats);
@@ -3237,10 +5955,12 @@ class Table<
    * Exports table data to JSON format with optional filtering and file output
    * Creates structured export with metadata including table name, timestamp, and record count
    * Supports both in-memory JSON string generation and direct file writing
+   * Records are streamed with iterate(); file exports are written row by row in constant memory.
    * 
    * @param options - Export configuration options
    * @param options.where - Optional WHERE clause to filter exported records
    * @param options.select - Optional field selection to limit exported columns
+   * @param options.orderBy - Optional ordering of the exported records
    * @param options.filePath - Optional file path to write JSON directly to disk
    * @param options.pretty - Whether to format JSON with indentation (default: true)
    * @returns JSON string if no filePath provided, undefined if written to file
@@ -3288,28 +6008,50 @@ class Table<
   exportToJson(options: {
     where?: SelectWhereClause<SELECT_FORMAT>;
     select?: Partial<OptionsFlags<SELECT_FORMAT>>;
+    orderBy?: OrderBy<SELECT_FORMAT>;
     filePath?: string;
     pretty?: boolean;
   } = {}): string | void {
-    const { where, select, filePath, pretty = true } = options;
-
-    const data = this.select({ where, select } as any);
-    const jsonData = {
-      table: this.tableName,
-      exported: new Date().toISOString(),
-      count: data.length,
-      data
-    };
+    const { where, select, orderBy, filePath, pretty = true } = options;
 
-    const jsonString = pretty ? JSON.stringify(jsonData, null, 2) : JSON.stringify(jsonData);
+    const count = this.count({ where } as any);
+    const rows = this.iterate({ where, select, orderBy } as any);
 
     if (filePath) {
       const fs = require('fs');
-      fs.writeFileSync(filePath, jsonString);
-      this.debugLog("Data exported to file", { filePath, records: data.length });
+      const fd = fs.openSync(filePath, 'w');
+      try {
+        for (const chunk of this.serializeExport(count, rows, pretty)) {
+          fs.writeSync(fd, chunk);
+        }
+      } finally {
+        fs.closeSync(fd);
+      }
+      this.debugLog("Data exported to file", { filePath, records: count });
     } else {
-      return jsonString;
+      return [...this.serializeExport(count, rows, pretty)].join("");
+    }
+  }
+
+  /**
+   * Yields the export document in chunks, matching JSON.stringify of the whole
+   * `{ table, exported, count, data }` object (indented by 2 when pretty)
+   */
+  private *serializeExport(count: number, rows: Iterable<unknown>, pretty: boolean): Generator<string> {
+    const header = { table: this.tableName, exported: new Date().toISOString(), count };
+    const headerJson = pretty ? JSON.stringify(header, null, 2) : JSON.stringify(header);
+    const separator = pretty ? ",\n    " : ",";
+
+    yield `${headerJson.slice(0, pretty ? -2 : -1)}${pretty ? ',\n  "data": [' : ',"data":['}`;
+
+    let first = true;
+    for (const row of rows) {
+      const rowJson = pretty ? JSON.stringify(row, null, 2).replace(/\n/g, "\n    ") : JSON.stringify(row);
+      yield `${first ? (pretty ? "\n    " : "") : separator}${rowJson}`;
+      first = false;
     }
+
+    yield pretty ? (first ? "]\n}" : "\n  ]\n}") : "]}";
   }
 
   /**
@@ -3393,7 +6135,8 @@ class Table<
         console.warn(`Warning: JSON is from table '${data.table}' but importing to '${this.tableName}'`);
       }
 
-      const batches = this.chunk(data.data, batchSize);
+      const records = (data.data as Record<string, unknown>[]).map(record => this.reviveImportedRecord(record));
+      const batches = this.chunk(records, batchSize);
 
       for (const batch of batches) {
         try {
@@ -3477,13 +6220,19 @@ class Table<
    *   columns: ['name'],
    *   ifNotExists: true
    * });
+   * 
+   * // Value inside a json column, used by JSON path filters on the same path
+   * userTable.createIndex({
+   *   name: 'idx_users_theme',
+   *   columns: [{ column: 'profile', path: ['settings', 'theme'] }]
+   * });
    * ```
    * 
    * @throws {Error} When index creation fails or column names are invalid
    */
   createIndex(options: {
     name: string;
-    columns: (keyof SELECT_FORMAT)[];
+    columns: (keyof SELECT_FORMAT | JsonIndexKey<SELECT_FORMAT>)[];
     unique?: boolean;
     ifNotExists?: boolean;
   }): void {
@@ -3491,7 +6240,9 @@ class Table<
 
     const indexType = unique ? "UNIQUE INDEX" : "INDEX";
     const ifNotExistsClause = ifNotExists ? "IF NOT EXISTS" : "";
-    const columnList = columns.map(String).join(", ");
+    const columnList = columns
+      .map(key => typeof key === "object" ? indexKeySql(key as JsonIndexPath) : String(key))
+      .join(", ");
 
     const query = `CREATE ${indexType} ${ifNotExistsClause} ${name} ON ${this.tableName} (${columnList})`;
 
@@ -3711,9 +6462,11 @@ class Table<
     this.debugLog("Executing raw query", { query, params });
 
     return this.executeWithErrorWrapper(() => {
-      const stmt = this.databaseInstance.prepare(query);
-      const results = stmt.all(...params) as Record<string, unknown>[];
-      stmt.finalize();
+      const results = this.withStatement(query, "write", stmt => stmt.all(...params) as Record<string, unknown>[]);
+      // Raw writes can touch any table (and triggers more), so every cached read is dropped
+      if (!/^\s*(SELECT|EXPLAIN|VALUES)\b/i.test(query)) {
+        this.pool?.invalidateCachedQueries();
+      }
 
       // Apply data type restoration if results seem to be from this table
       if (results.length > 0 && query.toLowerCase().includes(this.tableName.toLowerCase())) {
@@ -3749,6 +6502,7 @@ class Table<
    *   .where({ status: 'premium' })
    *   .whereLike({ email: '%@company.com' })
    *   .selectAll()
+   *   .orderBy('createdAt', 'DESC')
    *   .limit(50)
    *   .skip(0)
    *   .execute();
@@ -3766,8 +6520,8 @@ class Table<
    *   .exists();
    * ```
    */
-  query(): QueryBuilder<SELECT_FORMAT> {
-    return new QueryBuilder<SELECT_FORMAT>(this);
+  query(): QueryBuilder<SELECT_FORMAT, TABLES> {
+    return new QueryBuilder<SELECT_FORMAT, TABLES>(this);
   }
 }
 
@@ -3796,50 +6550,469 @@ type OptionalSelectFields<T> = {
   [K in keyof T]?: true;
 };
 
+// Comparison operators of a where clause and the SQL they compile to
+const WHERE_OPERATORS = {
+  LIKE: "LIKE",
+  greaterThan: ">",
+  lessThan: "<",
+  notEqual: "!=",
+  greaterThanOrEqual: ">=",
+  lessThanOrEqual: "<=",
+} as const;
+
+// Set membership operators, taking a list of values per column
+const WHERE_SET_OPERATORS = {
+  in: "IN",
+  notIn: "NOT IN",
+} as const;
+
+// Null checks, taking `{ column: true }` flags
+const WHERE_NULL_OPERATORS = {
+  isNull: "IS NULL",
+  isNotNull: "IS NOT NULL",
+} as const;
+
+// Comparisons of a JSON path filter against the value found at its path
+const JSON_PATH_OPERATORS = {
+  equals: "=",
+  notEqual: "!=",
+  greaterThan: ">",
+  lessThan: "<",
+  greaterThanOrEqual: ">=",
+  lessThanOrEqual: "<=",
+  LIKE: "LIKE",
+} as const;
+
+// Every path into a JSON document type (object keys and array indexes) with the value found there
+type JsonPathEntry<V, Depth extends unknown[] = []> =
+  Depth['length'] extends 4 ? never
+  : V extends readonly (infer E)[]
+  ? { path: readonly [number]; value: E } | PrefixJsonPath<number, JsonPathEntry<NonNullable<E>, [...Depth, unknown]>>
+  : V extends Date ? never
+  : V extends object
+  ? {
+    [K in keyof V & string]-?: { path: readonly [K]; value: V[K] } | PrefixJsonPath<K, JsonPathEntry<NonNullable<V[K]>, [...Depth, unknown]>>
+  }[keyof V & string]
+  : never;
+
+type PrefixJsonPath<K, E> = E extends { path: readonly [...infer P]; value: infer X }
+  ? { path: readonly [K, ...P]; value: X }
+  : never;
+
+type JsonValueOperators<X> = {
+  equals?: X | null;
+  notEqual?: X | null;
+  greaterThan?: NonNullable<X>;
+  lessThan?: NonNullable<X>;
+  greaterThanOrEqual?: NonNullable<X>;
+  lessThanOrEqual?: NonNullable<X>;
+  LIKE?: string;
+  in?: readonly NonNullable<X>[];
+  notIn?: readonly NonNullable<X>[];
+};
+
+/**
+ * Filter on a value inside a json column, typed from the column's `DataType`
+ * Operators are combined with AND.
+ *
+ * @example
+ * ```typescript
+ * { profile: { path: ["settings", "theme"], equals: "dark" } }
+ * { profile: { path: ["tags", 0], in: ["admin", "staff"] } }
+ * ```
+ */
+export type JsonPathFilter<V> = JsonPathEntry<V> extends infer E
+  ? E extends { path: infer P; value: infer X } ? { path: P } & JsonValueOperators<X> : never
+  : never;
+
+type OneOrMany<X> = X | readonly X[];
+
+// JSON path of a json column used as an index key
+type JsonIndexKey<T> = {
+  [K in keyof T & string]: { column: K; path: JsonPathEntry<NonNullable<T[K]>>["path"] };
+}[keyof T & string];
+
+// Appending needs an array at the path; the empty path targets the column's own array
+type JsonArrayAppendEntry<V> = (JsonPathEntry<V> | { path: readonly []; value: V }) extends infer E
+  ? E extends { path: infer P; value: infer X } ? NonNullable<X> extends readonly (infer I)[] ? { path: P; value: I } : never : never
+  : never;
+
+/**
+ * Partial updates of json columns, run in the database as `json_set`, `json_remove`
+ * and `json_insert(..., '$.path[#]', ...)`, applied in that order
+ */
+type JsonUpdateOperators<T> = {
+  jsonSet?: { [K in keyof T]?: OneOrMany<JsonPathEntry<NonNullable<T[K]>>> };
+  jsonRemove?: { [K in keyof T]?: OneOrMany<{ path: JsonPathEntry<NonNullable<T[K]>>["path"] }> };
+  jsonArrayAppend?: { [K in keyof T]?: OneOrMany<JsonArrayAppendEntry<NonNullable<T[K]>>> };
+};
+
+const JSON_UPDATE_OPERATORS = ["jsonSet", "jsonRemove", "jsonArrayAppend"] as const;
+
 // Database operation options
-type WhereClause<T> = Partial<T> | {
-  LIKE?: Partial<T>;
-  OR?: Partial<T>[];
-  greaterThan?: Partial<T>;
-  lessThan?: Partial<T>;
-  notEqual?: Partial<T>;
-  greaterThanOrEqual?: Partial<T>;
-  lessThanOrEqual?: Partial<T>;
+type WhereOperators<T> = {
+  [Operator in keyof typeof WHERE_OPERATORS]?: Partial<T>;
+} & {
+  [Operator in keyof typeof WHERE_SET_OPERATORS]?: { [K in keyof T]?: readonly NonNullable<T[K]>[] };
+} & {
+  [Operator in keyof typeof WHERE_NULL_OPERATORS]?: { [K in keyof T]?: true };
+} & {
+  between?: { [K in keyof T]?: readonly [NonNullable<T[K]>, NonNullable<T[K]>] };
+};
+
+// Boolean combinators; nested clauses accept every operator, recursively
+type WhereLogic<T> = {
+  AND?: WhereClause<T>[];
+  OR?: WhereClause<T>[];
+  NOT?: WhereClause<T>;
+};
+
+// Column equality, or a JSON path filter on json columns
+type WhereEquality<T> = {
+  [K in keyof T]?: T[K] | JsonPathFilter<NonNullable<T[K]>>;
+};
+
+type WhereClause<T> = WhereEquality<T> & WhereOperators<T> & WhereLogic<T>;
+
+// SQL fragment with its positional parameters
+type CompiledQuery = {
+  sql: string;
+  params: SQLParameter[];
+};
+
+// Value bound to a `?` placeholder
+type SQLParameter = string | number | null;
+
+// Write statement run once per parameter set
+type CompiledWrite = {
+  queryString: string;
+  paramSets: SQLParameter[][];
+  returning: boolean;
 };
 
 type SelectWhereClause<T> = WhereClause<T>;
 
+// Ordering of query results, one entry per column in priority order
+type OrderByClause<T> = {
+  column: keyof T;
+  direction?: 'ASC' | 'DESC';
+  nulls?: 'first' | 'last';
+};
+
+type OrderBy<T> = OrderByClause<T> | OrderByClause<T>[];
+
 type DatabaseSelectOptions<T, S = undefined> = {
   where?: WhereClause<T>;
   select?: S;
+  orderBy?: OrderBy<T>;
   limit?: number;
   skip?: number;
+  /** Rows of a soft-delete table to include (default: "exclude" deleted rows) */
+  deleted?: DeletedScope;
 };
 
 
 type DatabaseUpdateOptions<T> = {
   where: WhereClause<T>;
-  values: Partial<T>;
+  /** Columns to overwrite; optional when json operations are given */
+  values?: Partial<T>;
+} & JsonUpdateOperators<T>;
+
+/**
+ * Outcome of a write operation
+ * @property changes - Number of rows inserted, updated or deleted
+ * @property lastInsertRowid - Rowid of the most recent successful INSERT on the connection
+ */
+export type WriteResult = {
+  changes: number;
+  lastInsertRowid: number;
+  /** New version of the written row on tables with a `version` column (the last row when several were written) */
+  version?: number;
+};
+
+/**
+ * Thrown by `update` / `upsert` on tables with a `version` column when the expected
+ * version no longer matches, i.e. the row was changed (or removed) since it was read
+ *
+ * @property expectedVersion - Version the caller passed in
+ * @property current - The row as currently stored, or null when it no longer exists
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   db.Posts.update({ where: { id: 1 }, values: { title: "Edited", version: post.version } });
+ * } catch (error) {
+ *   if (error instanceof OptimisticLockError) retryWith(error.current);
+ *   else throw error;
+ * }
+ * ```
+ */
+export class OptimisticLockError<R = Record<string, unknown>> extends Error {
+  readonly table: string;
+  readonly expectedVersion: number;
+  readonly current: R | null;
+
+  constructor(table: string, expectedVersion: number, current: R | null) {
+    super(`Optimistic lock failed for table '${table}': row ${current ? "changed" : "removed"} since version ${expectedVersion}`);
+    this.name = "OptimisticLockError";
+    this.table = table;
+    this.expectedVersion = expectedVersion;
+    this.current = current;
+  }
+}
+
+/**
+ * Rows of a soft-delete table seen by a query: live rows (default), all rows, or only deleted rows
+ */
+export type DeletedScope = 'exclude' | 'include' | 'only';
+
+/**
+ * Read operations reported to query hooks
+ */
+export type QueryOperation = 'select' | 'paginate' | 'paginateCursor' | 'iterate' | 'count' | 'aggregate' | 'exists' | 'search';
+
+/**
+ * Context of `beforeQuery` hooks
+ * @property sql / params - The statement about to run (read-only)
+ */
+export type QueryHookContext<NAME extends string = string> = {
+  readonly table: NAME;
+  readonly operation: QueryOperation;
+  readonly sql: string;
+  readonly params: readonly SQLParameter[];
+};
+
+/**
+ * Lifecycle hooks registered with `Table.use()` or `DatabaseManager.use()`
+ * Before hooks may mutate their context (records, values, where) or throw to reject the operation;
+ * write hooks run in the transaction of the write, so throwing from an after hook rolls it back.
+ * `afterQuery` receives the records of select, findFirst, paginate and paginateCursor queries and may mutate or replace them.
+ */
+export type TableMiddleware<T, SELECT_FORMAT = T, NAME extends string = string> = {
+  beforeInsert?: (context: { readonly table: NAME; records: T[] }) => void;
+  afterInsert?: (context: { readonly table: NAME; readonly records: T[]; readonly result: WriteResult }) => void;
+  beforeUpdate?: (context: { readonly table: NAME; where: WhereClause<T>; values: Partial<T> }) => void;
+  afterUpdate?: (context: { readonly table: NAME; readonly where: WhereClause<T>; readonly values: Partial<T>; readonly result: WriteResult }) => void;
+  beforeDelete?: (context: { readonly table: NAME; where: WhereClause<T> }) => void;
+  afterDelete?: (context: { readonly table: NAME; readonly where: WhereClause<T>; readonly result: WriteResult }) => void;
+  beforeQuery?: (context: QueryHookContext<NAME>) => void;
+  afterQuery?: (context: QueryHookContext<NAME> & { rows: SELECT_FORMAT[] }) => void;
+};
+
+/**
+ * Hooks registered with `DatabaseManager.use()`, applied to every table
+ * Each context is a union over the schema tables, discriminated by `table`.
+ */
+export type DatabaseMiddleware<Schema extends readonly TableSchema[]> = {
+  [H in keyof TableMiddleware<unknown>]?: (context: {
+    [K in keyof DBSchemaToTableTypes<Schema> & string]: Parameters<
+      NonNullable<TableMiddleware<DBSchemaToTableTypes<Schema>[K], DBSchemaToTableTypes<Schema>[K], K>[H]>
+    >[0]
+  }[keyof DBSchemaToTableTypes<Schema> & string]) => void;
+};
+
+/**
+ * Page returned by `paginateCursor`
+ * @property pageInfo.startCursor / endCursor - Cursors of the first and last rows (null for an empty page)
+ */
+export type CursorPage<R> = {
+  data: R[];
+  pageInfo: {
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+    startCursor: string | null;
+    endCursor: string | null;
+  };
+};
+
+/**
+ * Options of `Table.search()`
+ *
+ * @property highlight - Column returned whole, with every match wrapped in `open` / `close` (default `<mark>` / `</mark>`)
+ * @property snippet - Excerpt of a column around the matches, at most `tokens` tokens long (default 10), cut with `ellipsis` (default "…")
+ * @property rank - Order by relevance (default: true); an object sets per-column BM25 weights (default weight 1)
+ * @property where - Filter on the table's columns
+ * @property limit - Maximum number of results
+ */
+export type SearchOptions<T> = {
+  highlight?: { column: keyof T & string; open?: string; close?: string };
+  snippet?: { column: keyof T & string; open?: string; close?: string; ellipsis?: string; tokens?: number };
+  rank?: boolean | { [K in keyof T]?: number };
+  where?: SelectWhereClause<T>;
+  limit?: number;
+};
+
+/**
+ * One match of `Table.search()`
+ *
+ * @property row - The matching row
+ * @property score - BM25 relevance, higher is more relevant
+ * @property highlight - Highlighted column, when `highlight` was requested
+ * @property snippet - Column excerpt, when `snippet` was requested
+ */
+export type SearchResult<T> = {
+  row: T;
+  score: number;
+  highlight?: string;
+  snippet?: string;
+};
+
+// One column of a cursor pagination ordering
+type CursorOrderTerm = {
+  column: string;
+  ascending: boolean;
+  nullsFirst: boolean;
 };
 
+// Columns to read back through RETURNING
+type ReturningFields<T> = { [K in keyof T]?: true };
+
+type WriteResultFor<T, R> = R extends Record<string, unknown>
+  ? WriteResult & { rows: Array<PreciseSelectedType<T, R>> }
+  : WriteResult;
+
 type DatabaseDeleteOptions<T> = {
   where: WhereClause<T>;
 };
 
+/**
+ * Opt-in caching of a read in the pool's query cache (pooled managers only)
+ */
+type QueryCacheOptions = {
+  /** Time (ms) the result stays cached (default: 300000) */
+  ttl?: number;
+};
+
 type DatabaseCountOptions<T> = {
   where?: WhereClause<T>;
+  deleted?: DeletedScope;
+};
+
+type AggregateOptions<T, K extends keyof T = keyof T> = {
+  column: K;
+  functions: Array<'SUM' | 'AVG' | 'MIN' | 'MAX' | 'COUNT'>;
+  where?: SelectWhereClause<T>;
+  deleted?: DeletedScope;
+};
+
+// Aggregates available to groupBy and the SQL functions behind them
+const GROUP_BY_FUNCTIONS = {
+  _sum: "SUM",
+  _avg: "AVG",
+  _min: "MIN",
+  _max: "MAX",
+} as const;
+
+const GROUP_BY_AGGREGATES = Object.keys(GROUP_BY_FUNCTIONS) as GroupByAggregate[];
+
+const HAVING_OPERATORS = {
+  equals: "=",
+  not: "!=",
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+} as const;
+
+type GroupByAggregate = keyof typeof GROUP_BY_FUNCTIONS;
+
+type HavingFilter = {
+  [Operator in keyof typeof HAVING_OPERATORS]?: number | null;
+};
+
+type GroupByOrderClause<T, By extends keyof T> =
+  | OrderByClause<Pick<T, By>>
+  | { aggregate: '_count'; direction?: 'ASC' | 'DESC' }
+  | { aggregate: GroupByAggregate; column: keyof T; direction?: 'ASC' | 'DESC' };
+
+type GroupByOptions<T, By extends keyof T> = {
+  by: By[];
+  where?: WhereClause<T>;
+  deleted?: DeletedScope;
+  _count?: true;
+  having?: { _count?: HavingFilter } & {
+    [Aggregate in GroupByAggregate]?: { [K in keyof T]?: HavingFilter };
+  };
+  orderBy?: GroupByOrderClause<T, By> | GroupByOrderClause<T, By>[];
+  limit?: number;
+  skip?: number;
+} & {
+  [Aggregate in GroupByAggregate]?: { [K in keyof T]?: true };
+};
+
+// Row returned by groupBy: group columns plus the requested aggregates
+type GroupByResult<T, By extends keyof T, O> =
+  Pick<T, By> &
+  (O extends { _count: true } ? { _count: number } : {}) &
+  (O extends { _sum: infer S } ? { _sum: { [K in keyof S & keyof T]: number | null } } : {}) &
+  (O extends { _avg: infer S } ? { _avg: { [K in keyof S & keyof T]: number | null } } : {}) &
+  (O extends { _min: infer S } ? { _min: { [K in keyof S & keyof T]: T[K] | null } } : {}) &
+  (O extends { _max: infer S } ? { _max: { [K in keyof S & keyof T]: T[K] | null } } : {});
+
+// Relation loading types used by `select({ include })`
+type RelationInclude = {
+  where?: WhereClause<any>;
+  orderBy?: OrderBy<any>;
+  limit?: number;
+  include?: Record<string, true | RelationInclude>;
+};
+
+type RelationsOf<RELATIONS, NAME> = NAME extends keyof RELATIONS ? RELATIONS[NAME] : {};
+
+type RelationTarget<R> = R extends { table: infer Target extends string } ? Target : never;
+
+type RelatedRow<TABLES, TARGET> = TARGET extends keyof TABLES ? TABLES[TARGET] : Record<string, any>;
+
+type IncludeOptions<TABLES, RELATIONS, NAME> = {
+  [R in keyof RelationsOf<RELATIONS, NAME>]?: true | {
+    where?: WhereClause<RelatedRow<TABLES, RelationTarget<RelationsOf<RELATIONS, NAME>[R]>>>;
+    orderBy?: OrderBy<RelatedRow<TABLES, RelationTarget<RelationsOf<RELATIONS, NAME>[R]>>>;
+    /** Maximum number of related rows per parent (to-many relations) */
+    limit?: number;
+    include?: IncludeOptions<TABLES, RELATIONS, RelationTarget<RelationsOf<RELATIONS, NAME>[R]>>;
+  };
+};
+
+// Relations attached to each row by an include, typed from the schema
+type IncludedRelations<TABLES, RELATIONS, NAME, I> = I extends Record<string, any> ? {
+  [R in keyof I & keyof RelationsOf<RELATIONS, NAME>]: RelationResult<
+    RelationsOf<RELATIONS, NAME>[R],
+    RelatedRow<TABLES, RelationTarget<RelationsOf<RELATIONS, NAME>[R]>> &
+    (I[R] extends { include: infer Nested } ? IncludedRelations<TABLES, RELATIONS, RelationTarget<RelationsOf<RELATIONS, NAME>[R]>, Nested> : {})
+  >
+} : {};
+
+type RelationResult<R, Row> = R extends { type: 'belongsTo' } ? Row | null : Row[];
+
+// Join types used by the query builder
+type JoinType = 'INNER' | 'LEFT';
+
+type JoinOptions<T, TJoined, Alias extends string> = {
+  /** Pairs of base table column -> joined table column, combined with AND */
+  on: { [K in keyof T]?: keyof TJoined & string };
+  /** Key the joined row is nested under (defaults to the joined table name) */
+  as?: Alias;
+  /** Conditions on the joined table's columns */
+  where?: WhereClause<TJoined>;
 };
 
+type JoinDefinition = {
+  table: string;
+  alias: string;
+  type: JoinType;
+  on: Record<string, string>;
+  where?: WhereClause<any>;
+};
+
+type ResolvedJoin = JoinDefinition & { columns: TableSchema["columns"]; softDeleteColumn?: string };
+
 // Query builder types
 type SelectQuery<T> = {
   select?: SelectFields<T>;
   where?: WhereClause<T>;
   limit?: number;
   skip?: number;
-  orderBy?: {
-    column: keyof T;
-    direction?: 'ASC' | 'DESC';
-  };
+  orderBy?: OrderBy<T>;
 };
 
 /**
@@ -3847,15 +7020,61 @@ type SelectQuery<T> = {
  * Provides method chaining with full TypeScript type inference
  * Ensures type safety throughout the query building process
  */
-class QueryBuilder<T extends Record<string, any>> {
+class QueryBuilder<
+  T extends Record<string, any>,
+  TABLES extends Record<string, Record<string, any>> = Record<string, Record<string, any>>,
+  JOINED extends Record<string, any> = {}
+> {
   private options: DatabaseSelectOptions<T, any> = {};
+  private joins: JoinDefinition[] = [];
+
+  constructor(private table: Table<any, T, TABLES, any, any>) { }
+
+  /**
+   * Inner join another schema table; its row is nested under the table name (or `as`)
+   *
+   * @example
+   * ```typescript
+   * const rows = db.getTable('Orders').query()
+   *   .join('Users', { on: { userId: 'id' }, where: { role: 'admin' } })
+   *   .execute();
+   * rows[0].total;      // Orders column
+   * rows[0].Users.name; // Users column, revived with the Users schema
+   * ```
+   */
+  join<K extends keyof TABLES & string, A extends string = K>(
+    table: K,
+    options: JoinOptions<T, TABLES[K], A>
+  ): QueryBuilder<T, TABLES, JOINED & { [P in A]: TABLES[K] }> {
+    return this.addJoin('INNER', table, options);
+  }
+
+  /**
+   * Left join another schema table; the nested row is `null` when nothing matches
+   */
+  leftJoin<K extends keyof TABLES & string, A extends string = K>(
+    table: K,
+    options: JoinOptions<T, TABLES[K], A>
+  ): QueryBuilder<T, TABLES, JOINED & { [P in A]: TABLES[K] | null }> {
+    return this.addJoin('LEFT', table, options);
+  }
 
-  constructor(private table: Table<any, T>) { }
+  private addJoin(type: JoinType, table: string, options: JoinOptions<T, any, string>): any {
+    this.joins.push({
+      table,
+      alias: options.as ?? table,
+      type,
+      on: options.on as Record<string, string>,
+      where: options.where,
+    });
+    return this;
+  }
 
   /**
    * Add WHERE conditions to the query
+   * Accepts nested AND/OR/NOT clauses as well as plain equality conditions
    */
-  where(conditions: Partial<T>): this {
+  where(conditions: WhereClause<T>): this {
     this.options.where = conditions;
     return this;
   }
@@ -3864,7 +7083,7 @@ class QueryBuilder<T extends Record<string, any>> {
    * Add LIKE conditions to the query
    */
   whereLike(conditions: Partial<T>): this {
-    this.options.where = { LIKE: conditions };
+    this.options.where = { LIKE: conditions } as WhereClause<T>;
     return this;
   }
 
@@ -3872,7 +7091,7 @@ class QueryBuilder<T extends Record<string, any>> {
    * Add OR conditions to the query
    */
   whereOr(conditions: Partial<T>[]): this {
-    this.options.where = { OR: conditions };
+    this.options.where = { OR: conditions } as WhereClause<T>;
     return this;
   }
 
@@ -3881,11 +7100,11 @@ class QueryBuilder<T extends Record<string, any>> {
    */
   select<TSelect extends Record<keyof T, true>>(
     fields: TSelect
-  ): QueryBuilder<T>;
+  ): QueryBuilder<T, TABLES, JOINED>;
   select<TSelect extends OptionalSelectFields<T>>(
     fields: TSelect
-  ): QueryBuilder<T>;
-  select(fields: any): QueryBuilder<T> {
+  ): QueryBuilder<T, TABLES, JOINED>;
+  select(fields: any): QueryBuilder<T, TABLES, JOINED> {
     this.options.select = fields as any;
     return this;
   }
@@ -3898,6 +7117,32 @@ class QueryBuilder<T extends Record<string, any>> {
     return this;
   }
 
+  /**
+   * Order results by a column; call repeatedly to add secondary orderings
+   */
+  orderBy(column: keyof T, direction: 'ASC' | 'DESC' = 'ASC', nulls?: 'first' | 'last'): this {
+    const current = this.options.orderBy;
+    const clauses = current ? (Array.isArray(current) ? current : [current]) : [];
+    this.options.orderBy = [...clauses, { column, direction, nulls }];
+    return this;
+  }
+
+  /**
+   * Include soft-deleted rows of the base table
+   */
+  withDeleted(): this {
+    this.options.deleted = 'include';
+    return this;
+  }
+
+  /**
+   * Only return soft-deleted rows of the base table
+   */
+  onlyDeleted(): this {
+    this.options.deleted = 'only';
+    return this;
+  }
+
   /**
    * Set the limit for results
    */
@@ -3917,14 +7162,20 @@ class QueryBuilder<T extends Record<string, any>> {
   /**
    * Execute the query and return results
    */
-  execute(): any[] {
+  execute(): keyof JOINED extends never ? any[] : Array<T & JOINED> {
+    if (this.joins.length > 0) {
+      return (this.table as any).selectWithJoins(this.options, this.joins);
+    }
     return (this.table as any).select(this.options);
   }
 
   /**
    * Execute as findFirst and return first result or null
    */
-  first(): any {
+  first(): keyof JOINED extends never ? any : (T & JOINED) | null {
+    if (this.joins.length > 0) {
+      return (this.table as any).selectWithJoins({ ...this.options, limit: 1 }, this.joins)[0] ?? null;
+    }
     return (this.table as any).findFirst(this.options);
   }
 
@@ -3932,14 +7183,20 @@ class QueryBuilder<T extends Record<string, any>> {
    * Count matching records
    */
   count(): number {
-    return (this.table as any).count({ where: this.options.where });
+    if (this.joins.length > 0) {
+      return (this.table as any).countWithJoins(this.options.where, this.joins, this.options.deleted);
+    }
+    return (this.table as any).count({ where: this.options.where, deleted: this.options.deleted });
   }
 
   /**
    * Check if any matching records exist
    */
   exists(): boolean {
-    return (this.table as any).exists({ where: this.options.where });
+    if (this.joins.length > 0) {
+      return this.count() > 0;
+    }
+    return (this.table as any).exists({ where: this.options.where, deleted: this.options.deleted });
   }
 }
 
@@ -3956,4 +7213,8 @@ export const wild = {
 } as const;
 
 
-export { Table };
\ No newline at end of file
+export { Table, Migrator, ValidationError };
+export type { Migration, MigrationStep, MigrationStatus, MigrationRunResult } from "./migrator";
+export type { ValidationMode, ValidationIssue, ValidationIssueCode } from "./validator";
+export type { HistogramSnapshot } from "./metrics";
+export type { OnlineBackupOptions, BackupManifest } from "./backup";
\ No newline at end of file
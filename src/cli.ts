@@ -128,7 +128,7 @@ export class DatabaseCLI {
             }
 
             const startTime = Date.now();
-            this.manager.backup(backupPath, finalOptions);
+            await this.manager.backup(backupPath, { ...finalOptions, ui: this.ui });
             const duration = Date.now() - startTime;
 
             this.ui.log('✅ Database backup completed successfully!', 'success');
@@ -181,7 +181,7 @@ export class DatabaseCLI {
                     const preRestoreBackupPath = this.generateBackupPath('pre-restore');
                     this.ui.log(`📦 Creating pre-restore backup: ${preRestoreBackupPath}`, 'info');
 
-                    this.manager.backup(preRestoreBackupPath, { compress: true, includeData: true });
+                    await this.manager.backup(preRestoreBackupPath, { compress: true, includeData: true, ui: this.ui });
                     this.ui.log('✅ Pre-restore backup created!', 'success');
                 }
             }
@@ -271,7 +271,7 @@ export class DatabaseCLI {
             if (shouldBackup) {
                 const backupPath = this.generateBackupPath('pre-merge');
                 this.ui.log(`📦 Creating backup at: ${backupPath}`, 'info');
-                this.manager.backup(backupPath, { compress: true, includeData: true });
+                await this.manager.backup(backupPath, { compress: true, includeData: true, ui: this.ui });
                 this.ui.log('✅ Backup created successfully!', 'success');
             }
 
@@ -361,12 +361,12 @@ export class DatabaseCLI {
         try {
             // Create backups
             const tempBackupPath = this.generateBackupPath('temp-migration');
-            this.manager.backup(tempBackupPath, { compress: true, includeData: true });
+            await this.manager.backup(tempBackupPath, { compress: true, includeData: true, ui: this.ui });
 
             if (shouldBackup) {
                 const permanentBackupPath = this.generateBackupPath('pre-migration');
                 this.ui.log(`📦 Creating permanent backup: ${permanentBackupPath}`, 'info');
-                this.manager.backup(permanentBackupPath, { compress: true, includeData: true });
+                await this.manager.backup(permanentBackupPath, { compress: true, includeData: true, ui: this.ui });
             }
 
             // Get existing stats
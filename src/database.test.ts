@@ -1,8 +1,8 @@
 import { Database } from 'bun:sqlite';
-import { Table, DatabaseManager } from './class';
+import { Table, DatabaseManager, ValidationError, OptimisticLockError } from './class';
 import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from 'bun:test';
 import { existsSync, unlinkSync } from 'fs';
-import { defineSchema } from './schema';
+import { defineSchema, Union } from './schema';
 
 // Type for our test user
 interface User {
@@ -60,7 +60,7 @@ beforeAll(() => {
 afterAll(() => {
     table.databaseInstance.exec('DROP TABLE IF EXISTS Users');
     // Clean up test files
-    [testDbPath, backupPath, `${backupPath}.gz`, './test-schema.json'].forEach(file => {
+    [testDbPath, backupPath, `${backupPath}.gz`, `${backupPath}.manifest.json`, `${backupPath}.gz.manifest.json`, './test-schema.json'].forEach(file => {
         if (existsSync(file)) {
             unlinkSync(file);
         }
@@ -1129,20 +1129,21 @@ describe('DatabaseManager Operations', () => {
     });
 
     describe('Backup and Restore', () => {
-        test('should create database backup', () => {
-            testDbManager.backup(backupPath, { includeData: true });
+        test('should create database backup', async () => {
+            await testDbManager.backup(backupPath, { includeData: true });
             expect(existsSync(backupPath)).toBe(true);
         });
 
-        test('should create compressed backup', () => {
+        test('should create compressed backup', async () => {
             const compressedBackupPath = `${backupPath}.gz`;
-            testDbManager.backup(compressedBackupPath, { compress: true, includeData: true });
+            await testDbManager.backup(compressedBackupPath, { compress: true, includeData: true });
+            expect(existsSync(`${compressedBackupPath}.manifest.json`)).toBe(true);
             expect(existsSync(compressedBackupPath)).toBe(true);
         });
 
-        test('should create schema-only backup', () => {
+        test('should create schema-only backup', async () => {
             const schemaBackupPath = './test-schema.json';
-            testDbManager.backup(schemaBackupPath, { includeData: false });
+            await testDbManager.backup(schemaBackupPath, { includeData: false });
             expect(existsSync(schemaBackupPath)).toBe(true);
         });
 
@@ -1864,4 +1865,2398 @@ describe('Integration and Real-world Scenarios', () => {
         expect(modernUsers[0].isActive).toBe(true);
         expect(modernUsers[1].isActive).toBe(false);
     });
-});
\ No newline at end of file
+});
+describe('Foreign Key Relationships', () => {
+    const fkSchema = defineSchema([
+        {
+            name: 'Authors',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'name', type: 'string' }
+            ]
+        },
+        {
+            name: 'Books',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'title', type: 'string' },
+                { name: 'authorId', type: 'number', references: { table: 'Authors', column: 'id', onDelete: 'CASCADE', onUpdate: 'CASCADE' } }
+            ]
+        }
+    ]);
+
+    test('should emit REFERENCES clause in table definition', () => {
+        const fkManager = DatabaseManager.createWithSchema({ db: new Database(':memory:'), schema: fkSchema });
+        fkManager.createTablesInDatabase();
+
+        const foreignKeys = fkManager.getTableInfo('Books').foreignKeys;
+        expect(foreignKeys).toHaveLength(1);
+        expect(foreignKeys[0]).toMatchObject({
+            table: 'Authors',
+            from: 'authorId',
+            to: 'id',
+            on_delete: 'CASCADE',
+            on_update: 'CASCADE'
+        });
+    });
+
+    test('should enforce and cascade foreign key constraints', () => {
+        const fkManager = DatabaseManager.createWithSchema({ db: new Database(':memory:'), schema: fkSchema });
+        fkManager.createTablesInDatabase();
+
+        const authors = fkManager.getTable('Authors');
+        const books = fkManager.getTable('Books');
+
+        authors.insert([{ id: 1, name: 'Ursula' }]);
+        books.insert([{ id: 1, title: 'The Dispossessed', authorId: 1 }]);
+
+        expect(() => books.insert([{ id: 2, title: 'Orphan', authorId: 42 }])).toThrow();
+
+        authors.delete({ where: { id: 1 } });
+        expect(books.count()).toBe(0);
+    });
+});
+
+describe('Versioned Migrations', () => {
+    const migrations = [
+        {
+            id: '0001_create_notes',
+            up: 'CREATE TABLE notes (id INTEGER PRIMARY KEY AUTOINCREMENT, body TEXT NOT NULL)',
+            down: 'DROP TABLE notes'
+        },
+        {
+            id: '0002_add_notes_pinned',
+            up: [
+                'ALTER TABLE notes ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0',
+                'CREATE INDEX idx_notes_pinned ON notes(pinned)'
+            ],
+            down: ['DROP INDEX idx_notes_pinned', 'ALTER TABLE notes DROP COLUMN pinned']
+        }
+    ];
+
+    const createManager = () => new DatabaseManager({ db: new Database(':memory:'), schema: defineSchema([]) });
+
+    test('should apply pending migrations and record them in the ledger', () => {
+        const manager = createManager();
+        const migrator = manager.migrator(migrations);
+
+        const result = migrator.migrate();
+        expect(result.migrations.map(m => m.id)).toEqual(['0001_create_notes', '0002_add_notes_pinned']);
+        expect(manager.getTableInfo('notes').columns.map((c: any) => c.name)).toContain('pinned');
+
+        const status = migrator.status();
+        expect(status.every(s => s.applied && !s.checksumMismatch)).toBe(true);
+        expect(migrator.migrate().migrations).toHaveLength(0);
+    });
+
+    test('should not touch the database in dry-run mode', () => {
+        const manager = createManager();
+        const migrator = manager.migrator(migrations);
+
+        const plan = migrator.migrate({ dryRun: true });
+        expect(plan.dryRun).toBe(true);
+        expect(plan.migrations[1]!.statements).toHaveLength(2);
+        expect(manager.listTables() as string[]).not.toContain('notes');
+        expect(migrator.status().some(s => s.applied)).toBe(false);
+    });
+
+    test('should roll back the last n migrations while keeping data', () => {
+        const manager = createManager();
+        const migrator = manager.migrator(migrations);
+        migrator.migrate();
+        manager.databaseInstance.exec("INSERT INTO notes (body, pinned) VALUES ('keep me', 1)");
+
+        migrator.rollback(1);
+        expect(manager.getTableInfo('notes').columns.map((c: any) => c.name)).not.toContain('pinned');
+        expect(manager.databaseInstance.prepare('SELECT body FROM notes').all()).toEqual([{ body: 'keep me' }]);
+        expect(migrator.status().filter(s => s.applied).map(s => s.id)).toEqual(['0001_create_notes']);
+    });
+
+    test('should roll back a failing migration atomically', () => {
+        const manager = createManager();
+        const migrator = manager.migrator([
+            migrations[0]!,
+            { id: '0002_broken', up: ['CREATE TABLE tags (id INTEGER PRIMARY KEY)', 'NOT VALID SQL'] }
+        ]);
+
+        expect(() => migrator.migrate()).toThrow();
+        expect(manager.listTables() as string[]).not.toContain('tags');
+        expect(migrator.status().filter(s => s.applied).map(s => s.id)).toEqual(['0001_create_notes']);
+    });
+
+    test('should refuse to run when an applied migration was modified', () => {
+        const db = new Database(':memory:');
+        const manager = new DatabaseManager({ db, schema: defineSchema([]) });
+        manager.migrator(migrations).migrate();
+
+        const edited = manager.migrator([
+            { ...migrations[0]!, up: 'CREATE TABLE notes (id INTEGER PRIMARY KEY)' },
+            migrations[1]!
+        ]);
+        expect(edited.status()[0]!.checksumMismatch).toBe(true);
+        expect(() => edited.migrate()).toThrow();
+    });
+});
+
+describe('Schema Diff', () => {
+    const createLiveDb = () => {
+        const db = new Database(':memory:');
+        db.exec(`CREATE TABLE Accounts (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            email TEXT NOT NULL,
+            legacy TEXT NOT NULL DEFAULT 'x'
+        )`);
+        db.exec(`CREATE INDEX idx_accounts_legacy ON Accounts (legacy)`);
+        db.exec(`CREATE TABLE Obsolete (id INTEGER PRIMARY KEY)`);
+        db.exec(`INSERT INTO Accounts (email) VALUES ('a@example.com'), ('b@example.com')`);
+        return db;
+    };
+
+    const schema = defineSchema([
+        {
+            name: 'Accounts',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'email', type: 'string', unique: true },
+                { name: 'nickname', type: 'string', nullable: true }
+            ],
+            indexes: [{ name: 'idx_accounts_nickname', columns: ['nickname'] }]
+        },
+        {
+            name: 'Sessions',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'accountId', type: 'number', references: { table: 'Accounts', column: 'id', onDelete: 'CASCADE' } }
+            ]
+        }
+    ]);
+
+    test('should report no changes for a freshly created schema', () => {
+        const manager = DatabaseManager.createWithSchema({ db: new Database(':memory:'), schema });
+        manager.createTablesInDatabase();
+
+        const diff = manager.diffSchema();
+        expect(diff.hasChanges).toBe(false);
+        expect(diff.sql).toHaveLength(0);
+    });
+
+    test('should report added, removed and changed structure', () => {
+        const manager = DatabaseManager.createWithSchema({ db: createLiveDb(), schema });
+        const diff = manager.diffSchema();
+
+        expect(diff.hasChanges).toBe(true);
+        expect(diff.tables.added).toEqual(['Sessions']);
+        expect(diff.tables.removed).toEqual(['Obsolete']);
+
+        const accounts = diff.tables.changed.find(t => t.name === 'Accounts')!;
+        expect(accounts.columns.added).toEqual(['nickname']);
+        expect(accounts.columns.removed).toEqual(['legacy']);
+        expect(accounts.columns.changed).toEqual([
+            { name: 'email', changes: [{ property: 'unique', expected: true, actual: false }] }
+        ]);
+        expect(accounts.indexes.added).toEqual(['idx_accounts_nickname']);
+        expect(accounts.indexes.removed).toEqual(['idx_accounts_legacy']);
+        expect(accounts.requiresRebuild).toBe(true);
+        expect(diff.sql.some(sql => sql.startsWith('DROP TABLE IF EXISTS Obsolete'))).toBe(false);
+    });
+
+    test('should use ALTER TABLE when the change allows it', () => {
+        const db = new Database(':memory:');
+        db.exec(`CREATE TABLE Accounts (id INTEGER PRIMARY KEY AUTOINCREMENT, email TEXT NOT NULL UNIQUE)`);
+        const manager = DatabaseManager.createWithSchema({ db, schema: defineSchema([schema[0]]) });
+
+        const diff = manager.diffSchema();
+        expect(diff.tables.changed[0]!.requiresRebuild).toBe(false);
+        expect(diff.sql).toContain('ALTER TABLE Accounts ADD COLUMN nickname TEXT');
+    });
+
+    test('should reconcile the database and keep existing rows', () => {
+        const db = createLiveDb();
+        const manager = DatabaseManager.createWithSchema({ db, schema });
+
+        manager.applySchemaDiff(manager.diffSchema({ dropRemovedTables: true }));
+
+        expect(manager.diffSchema().hasChanges).toBe(false);
+        expect(db.prepare('SELECT email, nickname FROM Accounts ORDER BY id').all()).toEqual([
+            { email: 'a@example.com', nickname: null },
+            { email: 'b@example.com', nickname: null }
+        ]);
+        expect(() => db.exec(`INSERT INTO Accounts (email) VALUES ('a@example.com')`)).toThrow();
+    });
+});
+
+describe('Ordering', () => {
+    const orderSchema = defineSchema([
+        {
+            name: 'Players',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'name', type: 'string' },
+                { name: 'team', type: 'string' },
+                { name: 'score', type: 'number', nullable: true }
+            ]
+        }
+    ]);
+    const orderManager = DatabaseManager.createWithSchema({ db: new Database(':memory:'), schema: orderSchema });
+    orderManager.createTablesInDatabase();
+    const players = orderManager.getTable('Players');
+    players.insert([
+        { id: 1, name: 'Ann', team: 'red', score: 10 },
+        { id: 2, name: 'Ben', team: 'blue', score: null },
+        { id: 3, name: 'Cid', team: 'red', score: 30 },
+        { id: 4, name: 'Dee', team: 'blue', score: 30 }
+    ]);
+
+    test('should order by multiple columns with null placement', () => {
+        const ordered = players.select({
+            orderBy: [
+                { column: 'score', direction: 'DESC', nulls: 'first' },
+                { column: 'name', direction: 'DESC' }
+            ]
+        });
+        expect(ordered.map(p => p.name)).toEqual(['Ben', 'Dee', 'Cid', 'Ann']);
+    });
+
+    test('should apply ordering to findFirst, distinct and paginate', () => {
+        expect(players.findFirst({ orderBy: { column: 'score', direction: 'ASC', nulls: 'last' } })?.name).toBe('Ann');
+        expect(players.distinct({ column: 'team', orderBy: { column: 'team', direction: 'DESC' } })).toEqual(['red', 'blue']);
+
+        const page = players.paginate({ page: 2, pageSize: 2, orderBy: [{ column: 'team' }, { column: 'name' }] });
+        expect(page.data.map(p => p.name)).toEqual(['Ann', 'Cid']);
+    });
+
+    test('should order exported records', () => {
+        const exported = JSON.parse(players.exportToJson({ orderBy: { column: 'id', direction: 'DESC' }, pretty: false }) as string);
+        expect(exported.data.map((p: any) => p.id)).toEqual([4, 3, 2, 1]);
+    });
+
+    test('should chain orderBy on the query builder', () => {
+        const names = players.query().orderBy('team').orderBy('score', 'DESC').execute().map((p: any) => p.name);
+        expect(names).toEqual(['Dee', 'Ben', 'Cid', 'Ann']);
+    });
+
+    test('should reject unknown orderBy columns', () => {
+        expect(() => players.select({ orderBy: { column: 'score; DROP TABLE Players' as any } })).toThrow();
+    });
+});
+
+describe('Nested Where Clauses', () => {
+    const whereSchema = defineSchema([
+        {
+            name: 'Members',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'name', type: 'string' },
+                { name: 'role', type: 'string' },
+                { name: 'age', type: 'number' },
+                { name: 'banned', type: 'boolean' }
+            ]
+        }
+    ] as const);
+
+    const whereManager = DatabaseManager.createWithSchema({ db: new Database(':memory:'), schema: whereSchema });
+    whereManager.createTable(whereSchema[0]);
+
+    const members = whereManager.getTable('Members');
+    members.insert([
+        { name: 'Ann', role: 'admin', age: 25, banned: false },
+        { name: 'Ben', role: 'admin', age: 28, banned: true },
+        { name: 'Cid', role: 'user', age: 35, banned: false },
+        { name: 'Dee', role: 'user', age: 22, banned: false }
+    ]);
+
+    const names = (rows: { name: string }[]) => rows.map(row => row.name).sort();
+
+    test('should combine OR with nested AND and NOT', () => {
+        const rows = members.select({
+            where: {
+                OR: [
+                    { greaterThan: { age: 30 } },
+                    { AND: [{ role: 'admin' }, { NOT: { banned: true } }] }
+                ]
+            }
+        });
+        expect(names(rows)).toEqual(['Ann', 'Cid']);
+    });
+
+    test('should AND sibling conditions with nested groups', () => {
+        const rows = members.select({
+            where: {
+                role: 'user',
+                OR: [{ lessThan: { age: 25 } }, { NOT: { OR: [{ name: 'Cid' }, { name: 'Dee' }] } }]
+            }
+        });
+        expect(names(rows)).toEqual(['Dee']);
+    });
+
+    test('should keep parameters in sync across count, exists, update and delete', () => {
+        const where = { NOT: { OR: [{ role: 'admin' }, { greaterThan: { age: 30 } }] } };
+
+        expect(members.count({ where })).toBe(1);
+        expect(members.exists({ where: { AND: [{ role: 'admin' }, { LIKE: { name: 'B%' } }] } })).toBe(true);
+
+        members.update({ where: { AND: [{ role: 'user' }, { lessThan: { age: 30 } }] }, values: { age: 23 } });
+        expect(members.findFirst({ where: { name: 'Dee' } })?.age).toBe(23);
+
+        members.delete({ where: { OR: [{ AND: [{ role: 'admin' }, { banned: true }] }] } });
+        expect(members.count()).toBe(3);
+    });
+
+    test('should treat an empty OR as matching nothing', () => {
+        expect(members.select({ where: { OR: [] } })).toEqual([]);
+        expect(members.count({ where: { AND: [{ role: 'user' }, { OR: [] }] } })).toBe(0);
+        expect(() => members.delete({ where: { OR: [] } })).toThrow();
+    });
+
+    test('should accept nested clauses in the query builder', () => {
+        const rows = members.query().where({ OR: [{ name: 'Ann' }, { NOT: { role: 'admin' } }] }).execute();
+        expect(names(rows as { name: string }[])).toEqual(['Ann', 'Cid', 'Dee']);
+    });
+});
+
+describe('Set, Range and Null Operators', () => {
+    const operatorSchema = defineSchema([
+        {
+            name: 'Tasks',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'title', type: 'string' },
+                { name: 'priority', type: 'number' },
+                { name: 'deletedAt', type: 'Date', nullable: true }
+            ]
+        }
+    ] as const);
+
+    const operatorManager = DatabaseManager.createWithSchema({ db: new Database(':memory:'), schema: operatorSchema });
+    operatorManager.createTable(operatorSchema[0]);
+
+    const tasks = operatorManager.getTable('Tasks');
+    tasks.insert([
+        { title: 'Write docs', priority: 1, deletedAt: null },
+        { title: 'Fix bug', priority: 3, deletedAt: null },
+        { title: 'Ship release', priority: 5, deletedAt: new Date('2024-01-01') },
+        { title: 'Plan sprint', priority: 2, deletedAt: null }
+    ]);
+
+    const titles = (rows: { title: string }[]) => rows.map(row => row.title).sort();
+
+    test('should store and match NULL values', () => {
+        expect(tasks.databaseInstance.prepare('SELECT COUNT(*) as count FROM Tasks WHERE deletedAt IS NULL').get()).toEqual({ count: 3 });
+        expect(tasks.count({ where: { deletedAt: null } })).toBe(3);
+        expect(tasks.count({ where: { notEqual: { deletedAt: null } } })).toBe(1);
+        expect(tasks.findFirst({ where: { title: 'Fix bug' } })?.deletedAt).toBeNull();
+    });
+
+    test('should reject undefined where values instead of matching NULL', () => {
+        const body: { deletedAt?: Date } = {};
+        expect(() => tasks.delete({ where: { deletedAt: body.deletedAt } })).toThrow("Where value for column 'deletedAt' is undefined");
+        expect(() => tasks.count({ where: { greaterThan: { priority: undefined } } })).toThrow("got undefined for column 'priority'");
+        expect(tasks.count()).toBe(4);
+    });
+
+    test('should filter with in and notIn', () => {
+        expect(titles(tasks.select({ where: { in: { priority: [1, 5] } } }))).toEqual(['Ship release', 'Write docs']);
+        expect(titles(tasks.select({ where: { notIn: { title: ['Fix bug', 'Plan sprint'] } } }))).toEqual(['Ship release', 'Write docs']);
+        expect(tasks.select({ where: { in: { priority: [] } } })).toEqual([]);
+        expect(tasks.count({ where: { notIn: { priority: [] } } })).toBe(4);
+    });
+
+    test('should filter with between, isNull and isNotNull', () => {
+        expect(titles(tasks.select({ where: { between: { priority: [2, 3] } } }))).toEqual(['Fix bug', 'Plan sprint']);
+        expect(tasks.exists({ where: { isNotNull: { deletedAt: true }, between: { priority: [4, 6] } } })).toBe(true);
+        expect(tasks.aggregate({ column: 'priority', functions: ['SUM'], where: { isNull: { deletedAt: true } } }).SUM).toBe(6);
+        expect(tasks.paginate({ page: 1, pageSize: 10, where: { isNull: { deletedAt: true } } }).total).toBe(3);
+        expect(() => tasks.select({ where: { between: { priority: [1] as any } } })).toThrow();
+    });
+
+    test('should support operators in update and delete', () => {
+        tasks.update({ where: { in: { title: ['Write docs', 'Plan sprint'] } }, values: { priority: 4 } });
+        expect(tasks.count({ where: { priority: 4 } })).toBe(2);
+
+        tasks.delete({ where: { isNotNull: { deletedAt: true } } });
+        expect(tasks.count()).toBe(3);
+    });
+});
+
+describe('Joins', () => {
+    const joinSchema = defineSchema([
+        {
+            name: 'Customers',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'name', type: 'string' },
+                { name: 'vip', type: 'boolean' },
+                { name: 'joinedAt', type: 'Date' }
+            ]
+        },
+        {
+            name: 'Purchases',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'customerId', type: 'number', nullable: true },
+                { name: 'total', type: 'number' },
+                { name: 'meta', type: 'json', nullable: true, DataType: { channel: 'string' } }
+            ]
+        }
+    ] as const);
+
+    const joinManager = DatabaseManager.createWithSchema({ db: new Database(':memory:'), schema: joinSchema });
+    joinManager.createTable(joinSchema[0]);
+    joinManager.createTable(joinSchema[1]);
+
+    const customers = joinManager.getTable('Customers');
+    const purchases = joinManager.getTable('Purchases');
+    customers.insert([
+        { name: 'Ann', vip: true, joinedAt: new Date('2024-01-01') },
+        { name: 'Ben', vip: false, joinedAt: new Date('2024-02-01') }
+    ]);
+    purchases.insert([
+        { customerId: 1, total: 50, meta: { channel: 'web' } },
+        { customerId: 2, total: 20, meta: null },
+        { customerId: null, total: 5, meta: null },
+        { customerId: 1, total: 70, meta: { channel: 'store' } }
+    ]);
+
+    test('should inner join and revive types from each schema', () => {
+        const rows = purchases.query()
+            .join('Customers', { on: { customerId: 'id' } })
+            .orderBy('id')
+            .execute();
+
+        expect(rows).toHaveLength(3);
+        expect(rows[0].total).toBe(50);
+        expect(rows[0].meta).toEqual({ channel: 'web' });
+        expect(rows[0].Customers.name).toBe('Ann');
+        expect(rows[0].Customers.vip).toBe(true);
+        expect(rows[0].Customers.joinedAt).toBeInstanceOf(Date);
+    });
+
+    test('should left join with alias and nest null for unmatched rows', () => {
+        const rows = purchases.query()
+            .leftJoin('Customers', { on: { customerId: 'id' }, as: 'buyer' })
+            .orderBy('id')
+            .execute();
+
+        expect(rows.map(row => row.buyer?.name ?? null)).toEqual(['Ann', 'Ben', null, 'Ann']);
+    });
+
+    test('should filter on base and joined columns', () => {
+        const query = purchases.query()
+            .join('Customers', { on: { customerId: 'id' }, where: { vip: true } })
+            .where({ greaterThan: { total: 60 } });
+
+        expect(query.count()).toBe(1);
+        expect(query.first()?.id).toBe(4);
+        expect(query.exists()).toBe(true);
+    });
+
+    test('should reject unknown tables, columns and duplicate aliases', () => {
+        expect(() => purchases.query().join('Missing' as any, { on: { customerId: 'id' } }).execute()).toThrow();
+        expect(() => purchases.query().join('Customers', { on: { customerId: 'nope' as any } }).execute()).toThrow();
+        expect(() => purchases.query().join('Purchases', { on: { id: 'id' } }).execute()).toThrow();
+    });
+});
+
+describe('Relation Includes', () => {
+    const relationSchema = defineSchema([
+        {
+            name: 'Authors',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'name', type: 'string' }
+            ],
+            relations: {
+                posts: { type: 'hasMany', table: 'Articles', foreignKey: 'authorId' }
+            }
+        },
+        {
+            name: 'Articles',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'authorId', type: 'number', nullable: true },
+                { name: 'title', type: 'string' },
+                { name: 'published', type: 'boolean' }
+            ],
+            relations: {
+                author: { type: 'belongsTo', table: 'Authors', foreignKey: 'authorId' },
+                labels: { type: 'manyToMany', table: 'Labels', through: { table: 'ArticleLabels', sourceKey: 'articleId', targetKey: 'labelId' } }
+            }
+        },
+        {
+            name: 'Labels',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'name', type: 'string' }
+            ]
+        },
+        {
+            name: 'ArticleLabels',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'articleId', type: 'number' },
+                { name: 'labelId', type: 'number' }
+            ]
+        }
+    ] as const);
+
+    const relationDb = new Database(':memory:');
+    const relationManager = DatabaseManager.createWithSchema({ db: relationDb, schema: relationSchema });
+    relationSchema.forEach(table => relationManager.createTable(table));
+
+    relationManager.getTable('Authors').insert([{ name: 'Ann' }, { name: 'Ben' }, { name: 'Cid' }]);
+    relationManager.getTable('Articles').insert([
+        { authorId: 1, title: 'First', published: true },
+        { authorId: 1, title: 'Second', published: false },
+        { authorId: 1, title: 'Third', published: true },
+        { authorId: 2, title: 'Solo', published: true },
+        { authorId: null, title: 'Orphan', published: true }
+    ]);
+    relationManager.getTable('Labels').insert([{ name: 'news' }, { name: 'tech' }]);
+    relationManager.getTable('ArticleLabels').insert([
+        { articleId: 1, labelId: 1 },
+        { articleId: 1, labelId: 2 },
+        { articleId: 4, labelId: 2 }
+    ]);
+
+    const countQueries = (run: () => void) => {
+        let queries = 0;
+        const prepare = relationDb.prepare.bind(relationDb);
+        relationDb.prepare = ((sql: string) => { queries++; return prepare(sql); }) as typeof relationDb.prepare;
+        try {
+            run();
+        } finally {
+            relationDb.prepare = prepare;
+        }
+        return queries;
+    };
+
+    test('should batch-load hasMany children with one query per relation', () => {
+        let authors: any[] = [];
+        const queries = countQueries(() => {
+            authors = relationManager.getTable('Authors').select({
+                include: { posts: { where: { published: true }, orderBy: { column: 'id', direction: 'DESC' } } },
+                orderBy: { column: 'id' }
+            });
+        });
+
+        expect(queries).toBe(2);
+        expect(authors.map(a => a.posts.map((p: any) => p.title))).toEqual([['Third', 'First'], ['Solo'], []]);
+        expect(authors[0].posts[0].published).toBe(true);
+    });
+
+    test('should apply include limits per parent', () => {
+        const authors = relationManager.getTable('Authors').select({
+            include: { posts: { limit: 2, orderBy: { column: 'title' } } },
+            orderBy: { column: 'id' }
+        });
+        expect(authors[0]!.posts.map(p => p.title)).toEqual(['First', 'Second']);
+        expect(authors[1]!.posts.map(p => p.title)).toEqual(['Solo']);
+    });
+
+    test('should load belongsTo and manyToMany relations with nested includes', () => {
+        const articles = relationManager.getTable('Articles').select({
+            include: { author: { include: { posts: { limit: 1 } } }, labels: true },
+            orderBy: { column: 'id' }
+        });
+
+        expect(articles[0]!.author?.name).toBe('Ann');
+        expect(articles[0]!.author?.posts.map(p => p.title)).toEqual(['First']);
+        expect(articles[4]!.author).toBeNull();
+        expect(articles[0]!.labels.map(l => l.name).sort()).toEqual(['news', 'tech']);
+        expect(articles[3]!.labels.map(l => l.name)).toEqual(['tech']);
+        expect(articles[1]!.labels).toEqual([]);
+    });
+
+    test('should reject unknown relations and missing keys', () => {
+        const authors = relationManager.getTable('Authors');
+        expect(() => authors.select({ include: { missing: true } as any })).toThrow();
+        expect(() => authors.select({ select: { name: true }, include: { posts: true } })).toThrow();
+    });
+});
+
+describe('Group By', () => {
+    const groupSchema = defineSchema([
+        {
+            name: 'Scores',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'role', type: 'string', union: ['admin', 'user', 'guest'] },
+                { name: 'team', type: 'string' },
+                { name: 'score', type: 'number' },
+                { name: 'playedAt', type: 'Date' }
+            ]
+        }
+    ] as const);
+
+    const groupManager = DatabaseManager.createWithSchema({ db: new Database(':memory:'), schema: groupSchema });
+    groupManager.createTable(groupSchema[0]);
+
+    const scores = groupManager.getTable('Scores');
+    scores.insert([
+        { role: 'admin', team: 'red', score: 80, playedAt: new Date('2024-01-01') },
+        { role: 'admin', team: 'blue', score: 60, playedAt: new Date('2024-03-01') },
+        { role: 'user', team: 'red', score: 40, playedAt: new Date('2024-02-01') },
+        { role: 'user', team: 'red', score: 50, playedAt: new Date('2024-04-01') },
+        { role: 'guest', team: 'blue', score: 10, playedAt: new Date('2024-05-01') }
+    ]);
+
+    test('should group with counts, sums and having filters', () => {
+        const rows = scores.groupBy({
+            by: ['role'],
+            _count: true,
+            _sum: { score: true },
+            having: { _sum: { score: { gt: 50 } } },
+            orderBy: { aggregate: '_sum', column: 'score', direction: 'DESC' }
+        });
+
+        expect(rows).toEqual([
+            { role: 'admin', _count: 2, _sum: { score: 140 } },
+            { role: 'user', _count: 2, _sum: { score: 90 } }
+        ]);
+    });
+
+    test('should group by several columns and restore min/max types', () => {
+        const rows = scores.groupBy({
+            by: ['team', 'role'],
+            where: { notEqual: { role: 'guest' } },
+            _avg: { score: true },
+            _max: { playedAt: true },
+            orderBy: [{ column: 'team' }, { column: 'role' }]
+        });
+
+        expect(rows.map(row => [row.team, row.role, row._avg.score])).toEqual([
+            ['blue', 'admin', 60],
+            ['red', 'admin', 80],
+            ['red', 'user', 45]
+        ]);
+        expect(rows[2]!._max.playedAt).toEqual(new Date('2024-04-01'));
+    });
+
+    test('should filter and order on counts with pagination', () => {
+        const rows = scores.groupBy({
+            by: ['team'],
+            _count: true,
+            having: { _count: { gte: 2 } },
+            orderBy: { aggregate: '_count', direction: 'DESC' },
+            limit: 1
+        });
+        expect(rows).toEqual([{ team: 'red', _count: 3 }]);
+    });
+
+    test('should reject invalid columns and orderings', () => {
+        expect(() => scores.groupBy({ by: [] })).toThrow();
+        expect(() => scores.groupBy({ by: ['nope' as any] })).toThrow();
+        expect(() => scores.groupBy({ by: ['role'], orderBy: { column: 'score' as any } })).toThrow();
+        expect(() => scores.groupBy({ by: ['role'], having: { _count: { between: 1 } as any } })).toThrow();
+    });
+});
+
+describe('Runtime Validation', () => {
+    const validationSchema = defineSchema([
+        {
+            name: 'Profiles',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'email', type: 'string', unique: true },
+                { name: 'role', type: 'string', union: ['admin', 'user'] },
+                { name: 'age', type: 'number', nullable: true },
+                { name: 'active', type: 'boolean', default: true },
+                { name: 'joinedAt', type: 'Date' },
+                {
+                    name: 'settings',
+                    type: 'json',
+                    nullable: true,
+                    DataType: {
+                        theme: Union('light', 'dark'),
+                        tags: ['string'],
+                        nested: { level: 'number' }
+                    }
+                }
+            ]
+        }
+    ] as const);
+
+    const createTable = (validation: 'strict' | 'warn' | 'off' = 'strict') => {
+        const manager = DatabaseManager.createWithSchema({ db: new Database(':memory:'), schema: validationSchema });
+        manager.createTable(validationSchema[0]);
+        return manager.getTable('Profiles', { validation });
+    };
+
+    const validProfile = {
+        email: 'ann@example.com',
+        role: 'admin' as const,
+        joinedAt: new Date('2024-01-01'),
+        settings: { theme: 'dark' as const, tags: ['a'], nested: { level: 1 } }
+    };
+
+    const captureIssues = (run: () => void) => {
+        try {
+            run();
+        } catch (error) {
+            expect(error).toBeInstanceOf(ValidationError);
+            return (error as ValidationError).issues;
+        }
+        throw new Error('Expected a ValidationError');
+    };
+
+    test('should accept records matching the schema', () => {
+        const profiles = createTable();
+        profiles.insert([validProfile]);
+        profiles.upsert([{ ...validProfile, age: null }], ['email']);
+        expect(profiles.count()).toBe(1);
+    });
+
+    test('should report field-level issues on insert in strict mode', () => {
+        const profiles = createTable();
+        const issues = captureIssues(() => profiles.insert([
+            validProfile,
+            {
+                email: 42,
+                role: 'owner',
+                joinedAt: 'yesterday',
+                settings: { theme: 'blue', tags: ['a', 1], nested: {} },
+                extra: true
+            } as any
+        ]));
+
+        expect(issues.map(issue => [issue.index, issue.field, issue.code])).toEqual([
+            [1, 'email', 'invalid_type'],
+            [1, 'role', 'invalid_value'],
+            [1, 'joinedAt', 'invalid_type'],
+            [1, 'settings.theme', 'invalid_value'],
+            [1, 'settings.tags[1]', 'invalid_type'],
+            [1, 'settings.nested.level', 'required'],
+            [1, 'extra', 'unknown_column']
+        ]);
+        expect(profiles.count()).toBe(0);
+    });
+
+    test('should check required and nullable columns', () => {
+        const profiles = createTable();
+        const issues = captureIssues(() => profiles.bulkInsert([{ email: 'x@example.com', role: 'user', active: null } as any]));
+        expect(issues.map(issue => [issue.field, issue.code])).toEqual([
+            ['active', 'not_nullable'],
+            ['joinedAt', 'required']
+        ]);
+    });
+
+    test('should validate update values as partial records', () => {
+        const profiles = createTable();
+        profiles.insert([validProfile]);
+
+        profiles.update({ where: { email: validProfile.email }, values: { age: 30 } });
+        const issues = captureIssues(() => profiles.update({ where: { email: validProfile.email }, values: { role: 'root' as any } }));
+        expect(issues).toEqual([{ index: 0, field: 'role', code: 'invalid_value', message: 'Expected one of "admin" | "user"', received: 'root' }]);
+    });
+
+    test('should only warn or skip validation when configured', () => {
+        const warnings: unknown[] = [];
+        const originalWarn = console.warn;
+        console.warn = (...args: unknown[]) => { warnings.push(args); };
+        try {
+            createTable('warn').insert([{ ...validProfile, role: 'owner' as any }]);
+        } finally {
+            console.warn = originalWarn;
+        }
+        expect(warnings).toHaveLength(1);
+
+        const manager = DatabaseManager.createWithSchema({ db: new Database(':memory:'), schema: validationSchema });
+        manager.createTable(validationSchema[0]);
+        console.warn = (...args: unknown[]) => { warnings.push(args); };
+        try {
+            manager.getTable('Profiles').insert([{ ...validProfile, role: 'owner' as any }]);
+        } finally {
+            console.warn = originalWarn;
+        }
+        expect(warnings).toHaveLength(2);
+
+        const unchecked = createTable('off');
+        unchecked.insert([{ ...validProfile, role: 'owner' as any }]);
+        expect(unchecked.findFirst({ where: { email: validProfile.email } })?.role).toBe('owner');
+    });
+
+    test('should revive dates when importing JSON', () => {
+        const source = createTable();
+        source.insert([validProfile]);
+        const target = createTable();
+
+        const result = target.importFromJson(source.exportToJson({ pretty: false }) as string);
+        expect(result.errors).toEqual([]);
+        expect(target.findFirst()?.joinedAt).toEqual(validProfile.joinedAt);
+    });
+});
+
+describe('Write Results and RETURNING', () => {
+    const writeSchema = defineSchema([
+        {
+            name: 'Notes',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'slug', type: 'string', unique: true },
+                { name: 'body', type: 'string' },
+                { name: 'pinned', type: 'boolean', default: false },
+                { name: 'createdAt', type: 'Date' }
+            ]
+        }
+    ] as const);
+
+    const writeManager = DatabaseManager.createWithSchema({ db: new Database(':memory:'), schema: writeSchema });
+    writeManager.createTable(writeSchema[0]);
+    const notes = writeManager.getTable('Notes');
+    const createdAt = new Date('2024-06-01T12:00:00Z');
+
+    test('should report changes and the last rowid', () => {
+        const inserted = notes.insert([
+            { slug: 'a', body: 'first', createdAt },
+            { slug: 'b', body: 'second', createdAt }
+        ]);
+        expect(inserted).toEqual({ changes: 2, lastInsertRowid: 2 });
+
+        expect(notes.update({ where: { pinned: false }, values: { body: 'edited' } }).changes).toBe(2);
+        expect(notes.delete({ where: { slug: 'missing' } }).changes).toBe(0);
+    });
+
+    test('should return typed rows from insert and upsert', () => {
+        const { rows, changes, lastInsertRowid } = notes.insert(
+            [{ slug: 'c', body: 'third', createdAt }],
+            { returning: { id: true, pinned: true, createdAt: true } }
+        );
+        expect(changes).toBe(1);
+        expect(lastInsertRowid).toBe(3);
+        expect(rows).toEqual([{ id: 3, pinned: false, createdAt }]);
+
+        const upserted = notes.upsert(
+            [{ slug: 'c', body: 'third again', createdAt }, { slug: 'd', body: 'fourth', createdAt }],
+            ['slug'],
+            undefined,
+            { returning: { slug: true, body: true } }
+        );
+        expect(upserted.rows).toEqual([
+            { slug: 'c', body: 'third again' },
+            { slug: 'd', body: 'fourth' }
+        ]);
+    });
+
+    test('should return updated and deleted rows', () => {
+        const updated = notes.update({ where: { in: { slug: ['a', 'b'] } }, values: { pinned: true }, returning: { slug: true, pinned: true } });
+        expect(updated.changes).toBe(2);
+        expect(updated.rows).toEqual([{ slug: 'a', pinned: true }, { slug: 'b', pinned: true }]);
+
+        const deleted = notes.delete({ where: { slug: 'd' }, returning: { slug: true, body: true } });
+        expect(deleted).toEqual({ changes: 1, lastInsertRowid: expect.any(Number), rows: [{ slug: 'd', body: 'fourth' }] });
+        expect(notes.count()).toBe(3);
+    });
+
+    test('should reject unknown returning columns', () => {
+        expect(() => notes.delete({ where: { slug: 'a' }, returning: { nope: true } as any })).toThrow();
+        expect(() => notes.insert([{ slug: 'e', body: 'x', createdAt }], { returning: {} })).toThrow();
+        expect(notes.count()).toBe(3);
+    });
+});
+
+describe('Transactions', () => {
+    const txSchema = defineSchema([
+        {
+            name: 'Wallets',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'owner', type: 'string', unique: true },
+                { name: 'balance', type: 'number' }
+            ]
+        },
+        {
+            name: 'Transfers',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'amount', type: 'number' }
+            ]
+        }
+    ] as const);
+
+    const txDb = new Database(':memory:');
+    const txManager = DatabaseManager.createWithSchema({ db: txDb, schema: txSchema });
+    txSchema.forEach(table => txManager.createTable(table));
+    const wallets = txManager.getTable('Wallets');
+    const transfers = txManager.getTable('Transfers');
+
+    beforeEach(() => {
+        txDb.exec('DELETE FROM Wallets; DELETE FROM Transfers;');
+        wallets.insert([{ owner: 'ann', balance: 100 }, { owner: 'ben', balance: 0 }]);
+    });
+
+    const balances = () => wallets.select({ orderBy: { column: 'owner' } }).map(w => w.balance);
+
+    test('should commit operations across tables and return the callback result', () => {
+        const result = txManager.transaction(tx => {
+            tx.getTable('Wallets').update({ where: { owner: 'ann' }, values: { balance: 60 } });
+            tx.getTable('Wallets').update({ where: { owner: 'ben' }, values: { balance: 40 } });
+            return tx.getTable('Transfers').insert([{ amount: 40 }]).lastInsertRowid;
+        }, { mode: 'IMMEDIATE' });
+
+        expect(typeof result).toBe('number');
+        expect(balances()).toEqual([60, 40]);
+        expect(txDb.inTransaction).toBe(false);
+    });
+
+    test('should roll back every table when the callback throws', () => {
+        expect(() => txManager.transaction(tx => {
+            tx.getTable('Transfers').insert([{ amount: 10 }]);
+            tx.getTable('Wallets').insert([{ owner: 'ann', balance: 1 }]); // unique violation
+        })).toThrow();
+
+        expect(transfers.count()).toBe(0);
+        expect(balances()).toEqual([100, 0]);
+        expect(txDb.inTransaction).toBe(false);
+    });
+
+    test('should roll back only the failing nested savepoint', () => {
+        txManager.transaction(tx => {
+            tx.getTable('Transfers').insert([{ amount: 1 }]);
+            expect(() => tx.transaction(inner => {
+                inner.getTable('Transfers').insert([{ amount: 2 }]);
+                throw new Error('inner failure');
+            })).toThrow('inner failure');
+            tx.transaction(inner => inner.getTable('Transfers').insert([{ amount: 3 }]));
+        });
+
+        expect(transfers.select({ orderBy: { column: 'id' } }).map(t => t.amount)).toEqual([1, 3]);
+    });
+
+    test('should support async callbacks', async () => {
+        await txManager.transaction(async tx => {
+            await Bun.sleep(1);
+            tx.getTable('Wallets').update({ where: { owner: 'ann' }, values: { balance: 50 } });
+        }, { mode: 'EXCLUSIVE' });
+        expect(balances()).toEqual([50, 0]);
+
+        await expect(txManager.transaction(async tx => {
+            tx.getTable('Wallets').update({ where: { owner: 'ann' }, values: { balance: 0 } });
+            await Bun.sleep(1);
+            throw new Error('async failure');
+        })).rejects.toThrow('async failure');
+        expect(balances()).toEqual([50, 0]);
+        expect(txDb.inTransaction).toBe(false);
+    });
+
+    test('should run concurrent async transactions one after another', async () => {
+        const a = txManager.transaction(async tx => {
+            tx.getTable('Transfers').insert([{ amount: 1 }]);
+            await Bun.sleep(10);
+            throw new Error('A failed');
+        });
+        const b = txManager.transaction(async tx => {
+            tx.getTable('Transfers').insert([{ amount: 2 }]);
+            await Bun.sleep(1);
+            return 'B';
+        });
+
+        await Bun.sleep(1);
+        expect(() => txManager.transaction(tx => tx.getTable('Transfers').count()))
+            .toThrow('A transaction is already open on this connection');
+
+        const [resultA, resultB] = await Promise.allSettled([a, b]);
+        expect(resultA.status === 'rejected' && resultA.reason.message).toBe('A failed');
+        expect(resultB).toEqual({ status: 'fulfilled', value: 'B' });
+        expect(transfers.select().map(t => t.amount)).toEqual([2]);
+        expect(txDb.inTransaction).toBe(false);
+    });
+
+    test('should nest async savepoints through the tx scope', async () => {
+        await txManager.transaction(async tx => {
+            tx.getTable('Transfers').insert([{ amount: 1 }]);
+            await tx.transaction(async inner => {
+                await Bun.sleep(1);
+                inner.getTable('Transfers').insert([{ amount: 2 }]);
+                throw new Error('inner failure');
+            }).catch(() => { });
+        });
+        expect(transfers.select().map(t => t.amount)).toEqual([1]);
+    });
+
+    test('should reject unknown modes', () => {
+        expect(() => txManager.transaction(() => { }, { mode: 'LAZY' as any })).toThrow();
+        expect(txDb.inTransaction).toBe(false);
+    });
+});
+
+describe('Cursor Pagination', () => {
+    const cursorSchema = defineSchema([
+        {
+            name: 'Articles',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'title', type: 'string' },
+                { name: 'score', type: 'number', nullable: true },
+                { name: 'published', type: 'boolean' }
+            ]
+        }
+    ] as const);
+
+    const cursorManager = DatabaseManager.createWithSchema({ db: new Database(':memory:'), schema: cursorSchema });
+    cursorManager.createTable(cursorSchema[0]);
+    const articles = cursorManager.getTable('Articles');
+
+    articles.insert([
+        { title: 'a', score: 3, published: true },
+        { title: 'b', score: 1, published: true },
+        { title: 'c', score: null, published: true },
+        { title: 'd', score: 3, published: false },
+        { title: 'e', score: 2, published: true },
+        { title: 'f', score: null, published: true },
+        { title: 'g', score: 1, published: true }
+    ]);
+
+    const walk = (options: { orderBy?: any; where?: any }, pageSize: number) => {
+        const titles: string[] = [];
+        let after: string | undefined;
+        for (; ;) {
+            const page = articles.paginateCursor({ ...options, first: pageSize, after });
+            titles.push(...page.data.map(article => article.title));
+            if (!page.pageInfo.hasNextPage) return titles;
+            after = page.pageInfo.endCursor!;
+        }
+    };
+
+    test('should page forward by primary key by default', () => {
+        const first = articles.paginateCursor({ first: 3 });
+        expect(first.data.map(a => a.title)).toEqual(['a', 'b', 'c']);
+        expect(first.pageInfo.hasNextPage).toBe(true);
+        expect(first.pageInfo.hasPreviousPage).toBe(false);
+
+        const second = articles.paginateCursor({ first: 3, after: first.pageInfo.endCursor! });
+        expect(second.data.map(a => a.title)).toEqual(['d', 'e', 'f']);
+        expect(second.pageInfo.hasPreviousPage).toBe(true);
+        expect(second.data[0]!.published).toBe(false);
+    });
+
+    test('should visit every row once with ties and NULLs in the ordering', () => {
+        const expected = articles.select({ orderBy: [{ column: 'score', direction: 'DESC' }, { column: 'id' }] }).map(a => a.title);
+        expect(walk({ orderBy: { column: 'score', direction: 'DESC' } }, 2)).toEqual(expected);
+
+        const nullsFirst = articles.select({ orderBy: [{ column: 'score', direction: 'DESC', nulls: 'first' }, { column: 'id' }] }).map(a => a.title);
+        expect(walk({ orderBy: { column: 'score', direction: 'DESC', nulls: 'first' } }, 3)).toEqual(nullsFirst);
+    });
+
+    test('should page backward with last and before', () => {
+        const orderBy = { column: 'score', direction: 'ASC' } as const;
+        const forward = articles.paginateCursor({ first: 4, orderBy });
+        const back = articles.paginateCursor({ last: 2, before: forward.pageInfo.endCursor!, orderBy });
+
+        expect(back.data.map(a => a.title)).toEqual(forward.data.slice(1, 3).map(a => a.title));
+        expect(back.pageInfo.hasPreviousPage).toBe(true);
+        expect(back.pageInfo.hasNextPage).toBe(true);
+
+        const tail = articles.paginateCursor({ last: 2, orderBy });
+        expect(tail.pageInfo.hasNextPage).toBe(false);
+        expect(tail.pageInfo.hasPreviousPage).toBe(true);
+    });
+
+    test('should apply where and strip ordering columns outside the selection', () => {
+        const page = articles.paginateCursor({
+            first: 10,
+            where: { published: true, isNotNull: { score: true } },
+            select: { title: true },
+            orderBy: { column: 'score' }
+        });
+
+        expect(page.data).toEqual([{ title: 'b' }, { title: 'g' }, { title: 'e' }, { title: 'a' }]);
+        expect(page.pageInfo.hasNextPage).toBe(false);
+    });
+
+    test('should reject invalid options and cursors', () => {
+        expect(() => articles.paginateCursor({ first: 1, last: 1 })).toThrow();
+        expect(() => articles.paginateCursor({ first: 0 })).toThrow();
+        expect(() => articles.paginateCursor({ after: 'not-a-cursor' })).toThrow('Invalid pagination cursor');
+
+        const byScore = articles.paginateCursor({ first: 1, orderBy: { column: 'score' } });
+        expect(() => articles.paginateCursor({ after: byScore.pageInfo.endCursor! })).toThrow('Invalid pagination cursor');
+    });
+
+    test('should return null cursors for an empty page', () => {
+        const page = articles.paginateCursor({ where: { title: 'zzz' } });
+        expect(page.data).toEqual([]);
+        expect(page.pageInfo).toEqual({ hasNextPage: false, hasPreviousPage: false, startCursor: null, endCursor: null });
+    });
+});
+
+describe('Streaming Iteration', () => {
+    const streamSchema = defineSchema([
+        {
+            name: 'Events',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'kind', type: 'string' },
+                { name: 'at', type: 'Date' },
+                { name: 'handled', type: 'boolean' },
+                { name: 'payload', type: 'json', DataType: { size: 'number' } }
+            ]
+        },
+        {
+            name: 'EventsCopy',
+            columns: [
+                { name: 'id', type: 'number', primary: true },
+                { name: 'kind', type: 'string' },
+                { name: 'at', type: 'Date' },
+                { name: 'handled', type: 'boolean' },
+                { name: 'payload', type: 'json', DataType: { size: 'number' } }
+            ]
+        }
+    ] as const);
+
+    const streamManager = DatabaseManager.createWithSchema({ db: new Database(':memory:'), schema: streamSchema });
+    streamSchema.forEach(table => streamManager.createTable(table));
+    const events = streamManager.getTable('Events');
+    const copies = streamManager.getTable('EventsCopy');
+
+    events.bulkInsert(Array.from({ length: 250 }, (_, i) => ({
+        kind: i % 2 === 0 ? 'click' : 'view',
+        at: new Date(1_700_000_000_000 + i * 1000),
+        handled: i % 3 === 0,
+        payload: { size: i }
+    })));
+
+    test('should stream rows with restored data types', () => {
+        const seen: number[] = [];
+        for (const event of events.iterate({ where: { kind: 'click' }, orderBy: { column: 'id', direction: 'DESC' } })) {
+            expect(event.at).toBeInstanceOf(Date);
+            expect(typeof event.handled).toBe('boolean');
+            seen.push(event.payload.size);
+        }
+        expect(seen.length).toBe(125);
+        expect(seen[0]).toBe(248);
+    });
+
+    test('should support selection, early exit and for await', async () => {
+        const iterator = events.iterate({ select: { id: true }, orderBy: { column: 'id' } });
+        const firstIds: number[] = [];
+        for await (const { id } of iterator) {
+            firstIds.push(id);
+            if (firstIds.length === 3) break;
+        }
+        expect(firstIds).toEqual([1, 2, 3]);
+        expect(iterator.next().done).toBe(true);
+    });
+
+    test('should export the same document as JSON.stringify while streaming', () => {
+        const pretty = events.exportToJson({ where: { lessThanOrEqual: { id: 2 } } }) as string;
+        const parsed = JSON.parse(pretty);
+        expect(parsed.count).toBe(2);
+        expect(pretty).toBe(JSON.stringify(parsed, null, 2));
+
+        const compact = events.exportToJson({ where: { kind: 'none' }, pretty: false }) as string;
+        expect(compact).toBe(JSON.stringify({ ...JSON.parse(compact), data: [] }));
+        expect(JSON.parse(compact).count).toBe(0);
+    });
+
+    test('should sync from a streamed source in batches', () => {
+        const progress: Array<[number, number]> = [];
+        const result = copies.syncWith(events as any, {
+            keyColumn: 'id',
+            batchSize: 40,
+            onProgress: (processed, total) => progress.push([processed, total])
+        });
+
+        expect(result.inserted).toBe(250);
+        expect(copies.count()).toBe(250);
+        expect(copies.findFirst({ where: { id: 10 } })!.payload).toEqual({ size: 9 });
+        expect(progress.at(-1)).toEqual([250, 250]);
+        expect(progress[0]).toEqual([100, 250]);
+    });
+});
+
+describe('Middleware', () => {
+    const hookSchema = defineSchema([
+        {
+            name: 'Members',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'email', type: 'string', unique: true },
+                { name: 'createdBy', type: 'string', nullable: true }
+            ]
+        },
+        {
+            name: 'AuditLog',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'entry', type: 'string' }
+            ]
+        }
+    ] as const);
+
+    const createManager = () => {
+        const manager = DatabaseManager.createWithSchema({ db: new Database(':memory:'), schema: hookSchema });
+        hookSchema.forEach(table => manager.createTable(table));
+        return manager;
+    };
+
+    test('should let before hooks mutate records and values', () => {
+        const manager = createManager();
+        const members = manager.getTable('Members');
+        members.use({
+            beforeInsert: ({ records }) => records.forEach(member => {
+                member.email = member.email.toLowerCase();
+                member.createdBy ??= 'system';
+            }),
+            beforeUpdate: (context) => {
+                if (context.values.email) context.values = { ...context.values, email: context.values.email.toLowerCase() };
+            }
+        });
+
+        members.insert([{ email: 'ANN@Example.com' }]);
+        members.bulkInsert([{ email: 'BEN@example.com' }, { email: 'Cid@example.com' }], 1);
+        members.update({ where: { email: 'ben@example.com' }, values: { email: 'BENJAMIN@example.com' } });
+
+        expect(members.select({ orderBy: { column: 'id' } }).map(m => [m.email, m.createdBy])).toEqual([
+            ['ann@example.com', 'system'],
+            ['benjamin@example.com', 'system'],
+            ['cid@example.com', 'system']
+        ]);
+    });
+
+    test('should reject writes and roll back hook side effects', () => {
+        const manager = createManager();
+        const members = manager.getTable('Members');
+        const audit = manager.getTable('AuditLog');
+        members.use({
+            afterInsert: ({ records }) => {
+                audit.insert(records.map(member => ({ entry: `created ${member.email}` })));
+            },
+            beforeDelete: ({ where }) => {
+                if (!('id' in where)) throw new Error('Members can only be deleted by id');
+            }
+        });
+
+        members.insert([{ email: 'ann@example.com' }]);
+        expect(() => members.insert([{ email: 'ann@example.com' }])).toThrow();
+        expect(audit.select().map(row => row.entry)).toEqual(['created ann@example.com']);
+
+        expect(() => members.delete({ where: { email: 'ann@example.com' } })).toThrow('Members can only be deleted by id');
+        expect(members.count()).toBe(1);
+        expect(members.delete({ where: { id: 1 } }).changes).toBe(1);
+    });
+
+    test('should apply manager hooks to every table before table hooks', () => {
+        const manager = createManager();
+        const calls: string[] = [];
+        const members = manager.getTable('Members');
+        members.use({ afterInsert: ({ table }) => calls.push(`table:${table}`) });
+
+        manager.use({
+            afterInsert: ({ table, result }) => calls.push(`manager:${table}:${result.changes}`),
+            beforeQuery: ({ table, operation }) => calls.push(`query:${table}:${operation}`)
+        });
+
+        members.insert([{ email: 'ann@example.com' }]);
+        manager.getTable('AuditLog').insert([{ entry: 'x' }, { entry: 'y' }]);
+        members.count();
+
+        expect(calls).toEqual([
+            'manager:Members:1',
+            'table:Members',
+            'manager:AuditLog:2',
+            'query:Members:count'
+        ]);
+    });
+
+    test('should let afterQuery transform selected records', () => {
+        const manager = createManager();
+        const members = manager.getTable('Members');
+        members.insert([{ email: 'ann@example.com' }, { email: 'ben@example.com' }]);
+        members.use({
+            afterQuery: (context) => {
+                context.rows = context.rows.map(member => ({ ...member, email: member.email.replace(/@.*/, '@…') }));
+            }
+        });
+
+        expect(members.findFirst({ where: { id: 1 } })!.email).toBe('ann@…');
+        expect(members.paginate({ page: 1, pageSize: 1 }).data[0]!.email).toBe('ann@…');
+        expect(members.paginateCursor({ first: 1, after: members.paginateCursor({ first: 1 }).pageInfo.endCursor! }).data[0]!.email).toBe('ben@…');
+    });
+
+    test('should run write hooks inside an outer transaction', () => {
+        const manager = createManager();
+        manager.use({
+            afterInsert: (context) => {
+                if (context.table === 'Members') throw new Error('blocked');
+            }
+        });
+
+        expect(() => manager.transaction(tx => {
+            tx.getTable('AuditLog').insert([{ entry: 'kept?' }]);
+            tx.getTable('Members').insert([{ email: 'ann@example.com' }]);
+        })).toThrow('blocked');
+
+        expect(manager.getTable('AuditLog').count()).toBe(0);
+        expect(manager.getTable('Members').count()).toBe(0);
+    });
+});
+
+describe('Automatic Timestamps', () => {
+    const timeSchema = defineSchema([
+        {
+            name: 'Notes',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'slug', type: 'string', unique: true },
+                { name: 'body', type: 'string' },
+                { name: 'createdAt', type: 'Date', autoCreateTime: true },
+                { name: 'updatedAt', type: 'Date', autoUpdateTime: true }
+            ]
+        }
+    ] as const);
+
+    const timeManager = DatabaseManager.createWithSchema({ db: new Database(':memory:'), schema: timeSchema });
+    timeManager.createTable(timeSchema[0]);
+    const notes = timeManager.getTable('Notes');
+    const at = (iso: string) => new Date(iso);
+
+    beforeEach(() => {
+        notes.delete({ where: { isNotNull: { id: true } } });
+    });
+
+    test('should fill both columns on insert and bulkInsert without mutating input', () => {
+        const before = Date.now();
+        const input = { slug: 'a', body: 'first' };
+        notes.insert([input]);
+        notes.bulkInsert([{ slug: 'b', body: 'second' }]);
+
+        expect(input).toEqual({ slug: 'a', body: 'first' });
+        for (const note of notes.select()) {
+            expect(note.createdAt).toBeInstanceOf(Date);
+            expect(note.createdAt!.getTime()).toBeGreaterThanOrEqual(before);
+            expect(note.updatedAt!.getTime()).toBe(note.createdAt!.getTime());
+        }
+    });
+
+    test('should keep explicit values', () => {
+        notes.insert([{ slug: 'a', body: 'x', createdAt: at('2020-01-01T00:00:00Z') }]);
+        const note = notes.findFirst({ where: { slug: 'a' } })!;
+        expect(note.createdAt).toEqual(at('2020-01-01T00:00:00Z'));
+        expect(note.updatedAt!.getFullYear()).toBeGreaterThan(2020);
+    });
+
+    test('should only touch updatedAt on update', () => {
+        notes.insert([{ slug: 'a', body: 'x', createdAt: at('2020-01-01T00:00:00Z'), updatedAt: at('2020-01-01T00:00:00Z') }]);
+        notes.update({ where: { slug: 'a' }, values: { body: 'y' } });
+
+        const note = notes.findFirst({ where: { slug: 'a' } })!;
+        expect(note.createdAt).toEqual(at('2020-01-01T00:00:00Z'));
+        expect(note.updatedAt!.getTime()).toBeGreaterThan(at('2020-01-01T00:00:00Z').getTime());
+    });
+
+    test('should preserve createdAt when an upsert updates an existing row', () => {
+        notes.insert([{ slug: 'a', body: 'x', createdAt: at('2020-01-01T00:00:00Z'), updatedAt: at('2020-01-01T00:00:00Z') }]);
+        notes.upsert([{ slug: 'a', body: 'updated' }, { slug: 'b', body: 'new' }], ['slug']);
+
+        const [existing, created] = notes.select({ orderBy: { column: 'slug' } });
+        expect(existing!.body).toBe('updated');
+        expect(existing!.createdAt).toEqual(at('2020-01-01T00:00:00Z'));
+        expect(existing!.updatedAt!.getFullYear()).toBeGreaterThan(2020);
+        expect(created!.createdAt).toBeInstanceOf(Date);
+    });
+});
+
+describe('Soft Delete', () => {
+    const softSchema = defineSchema([
+        {
+            name: 'Posts',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'title', type: 'string' },
+                { name: 'score', type: 'number' },
+                { name: 'deletedAt', type: 'Date', nullable: true }
+            ],
+            softDelete: { column: 'deletedAt' }
+        },
+        {
+            name: 'Tags',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'label', type: 'string' }
+            ]
+        }
+    ] as const);
+
+    const softManager = DatabaseManager.createWithSchema({ db: new Database(':memory:'), schema: softSchema });
+    softSchema.forEach(table => softManager.createTable(table));
+    const posts = softManager.getTable('Posts');
+    const tags = softManager.getTable('Tags');
+
+    beforeEach(() => {
+        posts.forceDelete({ where: { isNotNull: { id: true } } });
+        posts.insert([
+            { title: 'first', score: 10 },
+            { title: 'second', score: 20 },
+            { title: 'third', score: 30 }
+        ]);
+    });
+
+    test('should mark rows as deleted instead of removing them', () => {
+        const result = posts.delete({ where: { title: 'second' }, returning: { title: true, deletedAt: true } });
+
+        expect(result.changes).toBe(1);
+        expect(result.rows[0]!.deletedAt).toBeInstanceOf(Date);
+        expect(posts.count({ deleted: 'include' })).toBe(3);
+        expect(posts.delete({ where: { title: 'second' } }).changes).toBe(0);
+    });
+
+    test('should exclude deleted rows from reads by default', () => {
+        posts.delete({ where: { title: 'second' } });
+
+        expect(posts.select().map(post => post.title)).toEqual(['first', 'third']);
+        expect(posts.count()).toBe(2);
+        expect(posts.findFirst({ where: { title: 'second' } })).toBeNull();
+        expect(posts.exists({ where: { title: 'second' } })).toBe(false);
+        expect(posts.paginate({ page: 1, pageSize: 10 }).total).toBe(2);
+        expect(posts.aggregate({ column: 'score', functions: ['SUM'] }).SUM).toBe(40);
+        expect(posts.update({ where: { title: 'second' }, values: { score: 0 } }).changes).toBe(0);
+    });
+
+    test('should scope query builder reads with withDeleted and onlyDeleted', () => {
+        posts.delete({ where: { title: 'first' } });
+
+        expect(posts.query().withDeleted().count()).toBe(3);
+        expect(posts.query().onlyDeleted().execute().map((post: any) => post.title)).toEqual(['first']);
+        expect(posts.query().onlyDeleted().where({ title: 'third' }).exists()).toBe(false);
+        expect(posts.query().where({ title: 'first' }).first()).toBeNull();
+    });
+
+    test('should restore deleted rows', () => {
+        posts.delete({ where: { OR: [{ title: 'first' }, { title: 'second' }] } });
+
+        expect(posts.restore({ where: { title: 'first' } }).changes).toBe(1);
+        expect(posts.restore({ where: { title: 'third' } }).changes).toBe(0);
+        expect(posts.select().map(post => post.title)).toEqual(['first', 'third']);
+        expect(posts.findFirst({ where: { title: 'first' } })!.deletedAt).toBeNull();
+    });
+
+    test('should permanently remove rows with forceDelete', () => {
+        posts.delete({ where: { title: 'first' } });
+
+        expect(posts.forceDelete({ where: { title: 'first' } }).changes).toBe(1);
+        expect(posts.count({ deleted: 'include' })).toBe(2);
+    });
+
+    test('should reject restore on tables without soft deletes', () => {
+        expect(() => (tags as any).restore({ where: { id: 1 } })).toThrow("does not use soft deletes");
+    });
+
+    test('should require a nullable Date soft delete column', () => {
+        const invalid = defineSchema([
+            {
+                name: 'Broken',
+                columns: [
+                    { name: 'id', type: 'number', primary: true },
+                    { name: 'deletedAt', type: 'Date' }
+                ],
+                softDelete: { column: 'deletedAt' }
+            }
+        ] as const);
+
+        const manager = DatabaseManager.createWithSchema({ db: new Database(':memory:'), schema: invalid });
+        expect(() => manager.createTable(invalid[0])).toThrow("must be a nullable Date column");
+    });
+});
+
+describe('Optimistic Locking', () => {
+    const lockSchema = defineSchema([
+        {
+            name: 'Documents',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'slug', type: 'string', unique: true },
+                { name: 'body', type: 'string' },
+                { name: 'version', type: 'number', version: true }
+            ]
+        }
+    ] as const);
+
+    const lockManager = DatabaseManager.createWithSchema({ db: new Database(':memory:'), schema: lockSchema });
+    lockManager.createTable(lockSchema[0]);
+    const documents = lockManager.getTable('Documents');
+
+    beforeEach(() => {
+        documents.delete({ where: { isNotNull: { id: true } } });
+        documents.insert([{ slug: 'a', body: 'draft' }]);
+    });
+
+    test('should start at version 1 and increment on update', () => {
+        const doc = documents.findFirst({ where: { slug: 'a' } })!;
+        expect(doc.version).toBe(1);
+
+        const result = documents.update({ where: { id: doc.id }, values: { body: 'edited', version: doc.version } });
+        expect(result).toMatchObject({ changes: 1, version: 2 });
+        expect(documents.findFirst({ where: { slug: 'a' } })).toMatchObject({ body: 'edited', version: 2 });
+    });
+
+    test('should throw OptimisticLockError with the current row on a stale version', () => {
+        const doc = documents.findFirst({ where: { slug: 'a' } })!;
+        documents.update({ where: { id: doc.id }, values: { body: 'first writer', version: doc.version } });
+
+        let error: unknown;
+        try {
+            documents.update({ where: { id: doc.id }, values: { body: 'second writer', version: doc.version } });
+        } catch (caught) {
+            error = caught;
+        }
+
+        expect(error).toBeInstanceOf(OptimisticLockError);
+        expect((error as OptimisticLockError).expectedVersion).toBe(1);
+        expect((error as OptimisticLockError).current).toMatchObject({ body: 'first writer', version: 2 });
+        expect(documents.findFirst({ where: { slug: 'a' } })!.body).toBe('first writer');
+    });
+
+    test('should increment without checking when no version is given', () => {
+        const result = documents.update({ where: { slug: 'a' }, values: { body: 'forced' }, returning: { body: true } });
+
+        expect(result.version).toBe(2);
+        expect(result.rows).toEqual([{ body: 'forced' }]);
+    });
+
+    test('should check and increment versions on upsert', () => {
+        const result = documents.upsert([{ slug: 'a', body: 'merged', version: 1 }, { slug: 'b', body: 'new' }], ['slug']);
+        expect(result.changes).toBe(2);
+        expect(documents.select({ orderBy: { column: 'slug' } }).map(doc => doc.version)).toEqual([2, 1]);
+
+        expect(() => documents.upsert([{ slug: 'b', body: 'other' }, { slug: 'a', body: 'stale', version: 1 }], ['slug']))
+            .toThrow(OptimisticLockError);
+        expect(documents.select({ orderBy: { column: 'slug' } }).map(doc => doc.body)).toEqual(['merged', 'new']);
+    });
+});
+
+describe('Full-Text Search', () => {
+    const searchSchema = defineSchema([
+        {
+            name: 'Articles',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'title', type: 'string' },
+                { name: 'body', type: 'string' },
+                { name: 'published', type: 'boolean', default: true }
+            ],
+            fullText: { columns: ['title', 'body'], tokenizer: 'porter unicode61' }
+        }
+    ] as const);
+
+    const searchDb = new Database(':memory:');
+    const searchManager = DatabaseManager.createWithSchema({ db: searchDb, schema: searchSchema });
+    searchManager.createTable(searchSchema[0]);
+    const articles = searchManager.getTable('Articles');
+
+    beforeEach(() => {
+        articles.delete({ where: { isNotNull: { id: true } } });
+        articles.insert([
+            { title: 'Why SQLite', body: 'SQLite is an embedded database, SQLite runs everywhere', published: true },
+            { title: 'Cooking pasta', body: 'Boil water, add salt, then the pasta', published: true },
+            { title: 'Databases compared', body: 'Postgres and SQLite are both great databases', published: false }
+        ]);
+    });
+
+    test('should rank matches and stem terms', () => {
+        const results = articles.search('sqlite');
+
+        expect(results.map(result => result.row.title)).toEqual(['Why SQLite', 'Databases compared']);
+        expect(results[0]!.score).toBeGreaterThan(0);
+        expect(results[0]!.row.published).toBe(true);
+        expect(articles.search('databases').map(result => result.row.title).sort()).toEqual(['Databases compared', 'Why SQLite']);
+    });
+
+    test('should return highlights and snippets', () => {
+        const [result] = articles.search('pasta', {
+            highlight: { column: 'title' },
+            snippet: { column: 'body', open: '[', close: ']', tokens: 3 }
+        });
+
+        expect(result!.highlight).toBe('Cooking <mark>pasta</mark>');
+        expect(result!.snippet).toBe('…then the [pasta]');
+    });
+
+    test('should filter with where and limit', () => {
+        expect(articles.search('sqlite', { where: { published: false } }).map(result => result.row.title)).toEqual(['Databases compared']);
+        expect(articles.search('sqlite', { limit: 1 })).toHaveLength(1);
+        expect(articles.search('title:sqlite', { rank: { title: 10, body: 1 } }).map(result => result.row.title)).toEqual(['Why SQLite']);
+    });
+
+    test('should keep the index in sync with updates and deletes', () => {
+        articles.update({ where: { title: 'Cooking pasta' }, values: { title: 'Cooking risotto', body: 'Stir the rice' } });
+        articles.delete({ where: { title: 'Why SQLite' } });
+
+        expect(articles.search('pasta')).toHaveLength(0);
+        expect(articles.search('risotto')).toHaveLength(1);
+        expect(articles.search('sqlite').map(result => result.row.title)).toEqual(['Databases compared']);
+    });
+
+    test('should index existing rows and hide FTS tables from listTables', () => {
+        const db = new Database(':memory:');
+        db.exec("CREATE TABLE Articles (id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT NOT NULL, body TEXT NOT NULL, published INTEGER NOT NULL DEFAULT 1)");
+        db.exec("INSERT INTO Articles (title, body) VALUES ('Legacy row', 'Indexed after the fact')");
+
+        const manager = DatabaseManager.createWithSchema({ db, schema: searchSchema });
+        manager.createTable(searchSchema[0]);
+
+        expect(manager.getTable('Articles').search('legacy')).toHaveLength(1);
+        expect(manager.listTables()).toEqual(['Articles']);
+        expect(manager.diffSchema().hasChanges).toBe(false);
+    });
+
+    test('should reject invalid search options', () => {
+        expect(() => articles.search('')).toThrow('Search query cannot be empty');
+        expect(() => articles.search('sqlite', { highlight: { column: 'published' } })).toThrow("is not a fullText column");
+        expect(() => articles.search('"unterminated')).toThrow();
+    });
+});
+
+describe('JSON Paths', () => {
+    const jsonSchema = defineSchema([
+        {
+            name: 'Profiles',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'name', type: 'string' },
+                {
+                    name: 'profile',
+                    type: 'json',
+                    DataType: {
+                        settings: { theme: Union('light', 'dark'), fontSize: 'number', beta: 'boolean' },
+                        tags: ['string']
+                    }
+                }
+            ],
+            indexes: [{ name: 'idx_profiles_theme', columns: [{ column: 'profile', path: ['settings', 'theme'] }] }]
+        }
+    ] as const);
+
+    const jsonDb = new Database(':memory:');
+    const jsonManager = DatabaseManager.createWithSchema({ db: jsonDb, schema: jsonSchema });
+    jsonManager.createTable(jsonSchema[0]);
+    const profiles = jsonManager.getTable('Profiles');
+
+    beforeEach(() => {
+        profiles.delete({ where: { isNotNull: { id: true } } });
+        profiles.insert([
+            { name: 'ann', profile: { settings: { theme: 'dark', fontSize: 14, beta: true }, tags: ['admin'] } },
+            { name: 'ben', profile: { settings: { theme: 'light', fontSize: 12, beta: false }, tags: [] } },
+            { name: 'cat', profile: { settings: { theme: 'dark', fontSize: 18, beta: false }, tags: ['staff', 'admin'] } }
+        ]);
+    });
+
+    const names = (rows: Array<{ name: string }>) => rows.map(row => row.name).sort();
+
+    test('should filter on JSON paths', () => {
+        expect(names(profiles.select({ where: { profile: { path: ['settings', 'theme'], equals: 'dark' } } }))).toEqual(['ann', 'cat']);
+        expect(names(profiles.select({ where: { profile: { path: ['settings', 'fontSize'], greaterThan: 12, lessThan: 18 } } }))).toEqual(['ann']);
+        expect(names(profiles.select({ where: { profile: { path: ['settings', 'beta'], equals: true } } }))).toEqual(['ann']);
+        expect(names(profiles.select({ where: { profile: { path: ['tags', 0], in: ['staff', 'admin'] } } }))).toEqual(['ann', 'cat']);
+        expect(profiles.count({ where: { OR: [{ profile: { path: ['tags', 0], equals: null } }, { name: 'ann' }] } })).toBe(2);
+    });
+
+    test('should use expression indexes for matching paths', () => {
+        let query = { sql: '', params: [] as unknown[] };
+        jsonManager.getTable('Profiles')
+            .use({ beforeQuery: ({ sql, params }) => { query = { sql, params }; } })
+            .select({ where: { profile: { path: ['settings', 'theme'], equals: 'dark' } } });
+
+        const plan = jsonDb.prepare(`EXPLAIN QUERY PLAN ${query.sql}`).all(...query.params as any[]) as Array<{ detail: string }>;
+
+        expect(plan.some(step => step.detail.includes('idx_profiles_theme'))).toBe(true);
+        expect(jsonManager.diffSchema().hasChanges).toBe(false);
+    });
+
+    test('should apply jsonSet, jsonRemove and jsonArrayAppend in place', () => {
+        profiles.update({
+            where: { name: 'ben' },
+            values: { name: 'benjamin' },
+            jsonSet: { profile: [{ path: ['settings', 'theme'], value: 'dark' }, { path: ['settings', 'beta'], value: true }] },
+            jsonArrayAppend: { profile: { path: ['tags'], value: 'new' } }
+        });
+        profiles.update({ where: { name: 'cat' }, jsonRemove: { profile: { path: ['tags', 0] } } });
+
+        expect(profiles.findFirst({ where: { name: 'benjamin' } })!.profile).toEqual({
+            settings: { theme: 'dark', fontSize: 12, beta: true },
+            tags: ['new']
+        });
+        expect(profiles.findFirst({ where: { name: 'cat' } })!.profile.tags).toEqual(['admin']);
+    });
+
+    test('should reject invalid JSON operations', () => {
+        expect(() => profiles.update({ where: { id: 1 } } as any)).toThrow('Update values cannot be empty');
+        expect(() => profiles.update({ where: { id: 1 }, jsonSet: { name: { path: ['x'], value: 1 } } } as any))
+            .toThrow("requires a json column");
+        expect(() => profiles.update({
+            where: { id: 1 },
+            values: { profile: { settings: { theme: 'dark', fontSize: 1, beta: true }, tags: [] } },
+            jsonRemove: { profile: { path: ['tags'] } }
+        })).toThrow("cannot be both in values and in jsonRemove");
+        expect(() => profiles.select({ where: { profile: { path: ["it's", 'x'] as any, equals: 1 } } })).not.toThrow();
+    });
+});
+
+describe('Connection Pool Routing', () => {
+    const poolDbPath = './test-pool.db';
+    const schema = defineSchema([
+        {
+            name: 'Events',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'kind', type: 'string' }
+            ]
+        }
+    ] as const);
+
+    let manager: DatabaseManager<typeof schema>;
+    let events: ReturnType<typeof manager.getTable<'Events'>>;
+
+    beforeAll(() => {
+        manager = new DatabaseManager({ dbPath: poolDbPath, schema, usePool: true, poolConfig: { maxConnections: 2 } });
+        manager.createTablesInDatabase();
+        events = manager.getTable('Events');
+    });
+
+    afterAll(async () => {
+        await manager.closePool();
+        manager.databaseInstance.close();
+        [poolDbPath, `${poolDbPath}-wal`, `${poolDbPath}-shm`].forEach(file => {
+            if (existsSync(file)) unlinkSync(file);
+        });
+    });
+
+    beforeEach(() => {
+        events.delete({ where: { isNotNull: { id: true } } });
+    });
+
+    test('should read from pooled readers and see committed writes', () => {
+        expect(events.count()).toBe(0);
+        events.insert([{ kind: 'open' }, { kind: 'close' }]);
+
+        expect(events.count()).toBe(2);
+        expect(events.select({ where: { kind: 'open' } })).toHaveLength(1);
+        expect(manager.getPoolStats()!.totalConnections).toBeGreaterThan(0);
+        expect(manager.getPoolStats()!.totalConnections).toBeLessThanOrEqual(2);
+    });
+
+    test('should fan reads out over every reader connection', () => {
+        // The pool is internal; record which connection serves each read
+        const pool = (manager as any).pool;
+        const getReader = pool.getReader;
+        const readers: unknown[] = [];
+        pool.getReader = () => {
+            const reader = getReader.call(pool);
+            readers.push(reader);
+            return reader;
+        };
+        try {
+            for (let i = 0; i < 4; i++) events.count();
+        } finally {
+            pool.getReader = getReader;
+        }
+
+        expect(readers).toHaveLength(4);
+        expect(readers).not.toContain(undefined);
+        expect(readers).not.toContain(manager.databaseInstance);
+        expect(new Set(readers).size).toBe(2);
+        expect(manager.getPoolStats()!.totalConnections).toBe(2);
+    });
+
+    test('should keep writes on the single writer connection', () => {
+        events.insert([{ kind: 'open' }]);
+        const raw = manager.databaseInstance.prepare('SELECT COUNT(*) AS count FROM Events').get() as { count: number };
+
+        expect(raw.count).toBe(1);
+        expect(events.update({ where: { kind: 'open' }, values: { kind: 'reopened' } }).changes).toBe(1);
+        expect(events.findFirst({ where: { kind: 'reopened' } })).not.toBeNull();
+    });
+
+    test('should read uncommitted changes inside a transaction from the writer', () => {
+        manager.transaction(tx => {
+            tx.getTable('Events').insert([{ kind: 'pending' }]);
+            expect(tx.getTable('Events').count()).toBe(1);
+            expect(events.exists({ where: { kind: 'pending' } })).toBe(true);
+        });
+
+        expect(events.count()).toBe(1);
+    });
+
+    test('should keep reads on the writer without WAL', async () => {
+        const memoryManager = new DatabaseManager({ dbPath: ':memory:', schema, usePool: true });
+        memoryManager.createTablesInDatabase();
+        const memoryEvents = memoryManager.getTable('Events');
+
+        memoryEvents.insert([{ kind: 'open' }]);
+
+        expect(memoryEvents.count()).toBe(1);
+        expect(memoryManager.getPoolStats()!.totalConnections).toBe(0);
+        await memoryManager.closePool();
+    });
+});
+
+describe('Async Worker Queries', () => {
+    const workerDbPath = './test-workers.db';
+    const schema = defineSchema([
+        {
+            name: 'Jobs',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'name', type: 'string', unique: true },
+                { name: 'done', type: 'boolean', default: false },
+                { name: 'payload', type: 'json', DataType: { retries: 'number' } },
+                { name: 'scheduledAt', type: 'Date' }
+            ]
+        }
+    ] as const);
+
+    let manager: DatabaseManager<typeof schema>;
+    let jobs: ReturnType<typeof manager.getTable<'Jobs'>>;
+    const scheduledAt = new Date('2024-05-01T10:00:00.000Z');
+
+    beforeAll(() => {
+        manager = new DatabaseManager({ dbPath: workerDbPath, schema, usePool: true, poolConfig: { maxConnections: 2, useWorkers: true } });
+        manager.createTablesInDatabase();
+        jobs = manager.getTable('Jobs', { validation: 'strict' });
+    });
+
+    afterAll(async () => {
+        await manager.closePool();
+        manager.databaseInstance.close();
+        [workerDbPath, `${workerDbPath}-wal`, `${workerDbPath}-shm`].forEach(file => {
+            if (existsSync(file)) unlinkSync(file);
+        });
+    });
+
+    beforeEach(() => {
+        jobs.delete({ where: { isNotNull: { id: true } } });
+    });
+
+    test('should write and read through workers, reviving types on the main thread', async () => {
+        const { rows } = await jobs.insertAsync([
+            { name: 'build', done: false, payload: { retries: 1 }, scheduledAt },
+            { name: 'deploy', done: true, payload: { retries: 3 }, scheduledAt }
+        ], { returning: { id: true, scheduledAt: true } });
+
+        expect(rows).toHaveLength(2);
+        expect(rows[0]!.scheduledAt).toBeInstanceOf(Date);
+
+        const selected = await jobs.selectAsync({ orderBy: { column: 'name' } });
+        expect(selected.map(job => job.name)).toEqual(['build', 'deploy']);
+        expect(selected[1]!.done).toBe(true);
+        expect(selected[1]!.payload).toEqual({ retries: 3 });
+        expect(selected[0]!.scheduledAt.getTime()).toBe(scheduledAt.getTime());
+
+        expect(jobs.count()).toBe(2);
+        expect(await jobs.countAsync({ where: { done: true } })).toBe(1);
+        expect(await jobs.aggregateAsync({ column: 'id', functions: ['COUNT'] })).toEqual({ COUNT: 2 });
+    });
+
+    test('should update and delete through the write queue', async () => {
+        await jobs.insertAsync([{ name: 'build', done: false, payload: { retries: 1 }, scheduledAt }]);
+
+        const updated = await jobs.updateAsync({ where: { name: 'build' }, values: { done: true }, returning: { done: true } });
+        expect(updated.rows).toEqual([{ done: true }]);
+        expect((await jobs.findFirstAsync({ where: { name: 'build' } }))!.done).toBe(true);
+
+        expect((await jobs.deleteAsync({ where: { name: 'build' } })).changes).toBe(1);
+        expect(await jobs.findFirstAsync({ where: { name: 'build' } })).toBeNull();
+    });
+
+    test('should reject with validation and SQLite errors', async () => {
+        await jobs.insertAsync([{ name: 'build', done: false, payload: { retries: 1 }, scheduledAt }]);
+
+        // Caught first: bun's `rejects` matcher can hang on promises settled by worker messages
+        const duplicate = await jobs.insertAsync([{ name: 'build', done: false, payload: { retries: 1 }, scheduledAt }]).catch(error => error);
+        const invalid = await jobs.insertAsync([{ name: 'other', done: false, payload: { retries: 'x' } as any, scheduledAt }]).catch(error => error);
+
+        expect(duplicate.name).toBe('SQLiteError');
+        expect(duplicate.message).toContain('UNIQUE constraint failed');
+        expect(invalid).toBeInstanceOf(ValidationError);
+        expect(await jobs.countAsync()).toBe(1);
+    });
+
+    test('should keep a single writer under concurrent sync and async writes', async () => {
+        const job = (name: string) => ({ name, done: false, payload: { retries: 0 }, scheduledAt });
+        const asyncWrites = Array.from({ length: 20 }, (_, i) =>
+            jobs.insertAsync(Array.from({ length: 50 }, (_, j) => job(`async-${i}-${j}`)))
+        );
+        for (let i = 0; i < 20; i++) {
+            jobs.insert([job(`sync-${i}`)]);
+            await Bun.sleep(0);
+        }
+        const results = await Promise.all(asyncWrites);
+
+        expect(results.every(result => result.changes === 50)).toBe(true);
+        expect(jobs.count()).toBe(1020);
+        expect(await jobs.countAsync({ where: { LIKE: { name: 'sync-%' } } })).toBe(20);
+    });
+
+    test('should not let queued writes join a transaction opened after them', async () => {
+        const job = (name: string) => ({ name, done: false, payload: { retries: 0 }, scheduledAt });
+        const queued = jobs.insertAsync([job('queued')]);
+        const rolledBack = await manager.transaction(async tx => {
+            tx.getTable('Jobs').insert([job('undone')]);
+            await Bun.sleep(20);
+            throw new Error('rollback');
+        }).catch(error => error);
+        await queued;
+
+        expect(rolledBack.message).toBe('rollback');
+        expect(jobs.findFirst({ where: { name: 'queued' } })).not.toBeNull();
+        expect(jobs.findFirst({ where: { name: 'undone' } })).toBeNull();
+    });
+
+    test('should not run writes of other callers inside a pending transaction', async () => {
+        const job = (name: string) => ({ name, done: false, payload: { retries: 0 }, scheduledAt });
+        let queued: Promise<unknown> | undefined;
+        const rolledBack = await manager.transaction(async tx => {
+            tx.getTable('Jobs').insert([job('undone')]);
+            queued = jobs.insertAsync([job('other request')]);
+            await Bun.sleep(20);
+            throw new Error('rollback');
+        }).catch(error => error);
+        await queued;
+
+        expect(rolledBack.message).toBe('rollback');
+        expect(jobs.findFirst({ where: { name: 'other request' } })).not.toBeNull();
+        expect(jobs.findFirst({ where: { name: 'undone' } })).toBeNull();
+    });
+
+    test('should replace a reader worker that crashed', async () => {
+        await jobs.insertAsync([{ name: 'build', done: false, payload: { retries: 1 }, scheduledAt }]);
+        await jobs.countAsync();
+
+        const workers = (manager as any).pool.getWorkers();
+        const crashed = workers.readers[0];
+        crashed.worker.dispatchEvent(new ErrorEvent('error', { message: 'boom' }));
+
+        const rejected = await crashed.request({ type: 'query', sql: 'SELECT 1', params: [] }).catch((error: Error) => error);
+        expect(rejected.message).toBe('Query worker is closed');
+        expect(await jobs.countAsync()).toBe(1);
+        expect(workers.readers).not.toContain(crashed);
+    });
+
+    test('should run on the main thread inside transactions and with write hooks', async () => {
+        const hooked = manager.getTable('Jobs').use({
+            beforeInsert: ({ records }) => records.forEach(record => { record.name = record.name.toUpperCase(); })
+        });
+        await hooked.insertAsync([{ name: 'hooked', done: false, payload: { retries: 0 }, scheduledAt }]);
+        expect(jobs.findFirst({ where: { name: 'HOOKED' } })).not.toBeNull();
+
+        await manager.transaction(async tx => {
+            await tx.getTable('Jobs').insertAsync([{ name: 'pending', done: false, payload: { retries: 0 }, scheduledAt }]);
+            expect(await tx.getTable('Jobs').countAsync()).toBe(2);
+        });
+        expect(await jobs.countAsync()).toBe(2);
+    });
+
+    test('should run the query hooks of the sync API', async () => {
+        const calls: string[] = [];
+        const hooked = manager.getTable('Jobs').use({
+            beforeQuery: ({ operation }) => calls.push(`before:${operation}`),
+            afterQuery: (context) => {
+                calls.push(`after:${context.operation}`);
+                context.rows = context.rows.filter(row => row.name !== 'hidden');
+            }
+        });
+        await jobs.insertAsync([
+            { name: 'build', done: false, payload: { retries: 0 }, scheduledAt },
+            { name: 'hidden', done: false, payload: { retries: 0 }, scheduledAt }
+        ]);
+
+        const rows = await hooked.selectAsync();
+        const count = await hooked.countAsync();
+        const stats = await hooked.aggregateAsync({ column: 'id', functions: ['COUNT'] });
+        const asyncCalls = calls.splice(0);
+        hooked.select();
+        hooked.count();
+        hooked.aggregate({ column: 'id', functions: ['COUNT'] });
+
+        expect(rows.map(row => row.name)).toEqual(['build']);
+        expect(count).toBe(2);
+        expect(stats).toEqual({ COUNT: 2 });
+        expect(asyncCalls).toEqual(['before:select', 'after:select', 'before:count', 'before:aggregate']);
+        expect(calls).toEqual(asyncCalls);
+    });
+});
+
+describe('Pool Metrics', () => {
+    const metricsDbPath = './test-metrics.db';
+    const schema = defineSchema([
+        {
+            name: 'Hits',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'path', type: 'string' }
+            ]
+        }
+    ] as const);
+
+    let manager: DatabaseManager<typeof schema>;
+
+    beforeAll(() => {
+        manager = new DatabaseManager({ dbPath: metricsDbPath, schema, usePool: true });
+        manager.createTablesInDatabase();
+    });
+
+    afterAll(async () => {
+        await manager.closePool();
+        manager.databaseInstance.close();
+        [metricsDbPath, `${metricsDbPath}-wal`, `${metricsDbPath}-shm`].forEach(file => {
+            if (existsSync(file)) unlinkSync(file);
+        });
+    });
+
+    test('should report every open pool in getGlobalPoolStats', async () => {
+        const hits = manager.getTable('Hits');
+        hits.insert([{ path: '/' }]);
+        hits.select();
+        await manager.executeWithPool(db => db.prepare('SELECT 1').all(), true, 'one');
+        await manager.executeWithPool(db => db.prepare('SELECT 1').all(), true, 'one');
+
+        const stats = DatabaseManager.getGlobalPoolStats()[metricsDbPath]!;
+
+        expect(stats).toBeDefined();
+        expect(stats.queryLatency.count).toBe(3);
+        expect(stats.queryLatency.buckets.at(-1)).toEqual({ le: Infinity, count: 3 });
+        expect(stats.acquireTime.count).toBe(1);
+        expect(stats.cacheHits).toBe(1);
+        expect(stats.cacheMisses).toBe(1);
+    });
+
+    test('should list a pool from its manager until the manager is closed', async () => {
+        const tenantDbPath = './test-metrics-tenant.db';
+        const tenant = new DatabaseManager({ dbPath: tenantDbPath, schema, usePool: true });
+        try {
+            expect(DatabaseManager.getGlobalPoolStats()[tenantDbPath]).toBeDefined();
+            await tenant.close();
+            expect(DatabaseManager.getGlobalPoolStats()[tenantDbPath]).toBeUndefined();
+            expect(DatabaseManager.getPoolMetrics()).not.toContain(tenantDbPath);
+        } finally {
+            [tenantDbPath, `${tenantDbPath}-wal`, `${tenantDbPath}-shm`].forEach(file => {
+                if (existsSync(file)) unlinkSync(file);
+            });
+        }
+    });
+
+    test('should render Prometheus text exposition', () => {
+        const metrics = DatabaseManager.getPoolMetrics();
+
+        expect(metrics).toContain('# TYPE sqlite_pool_query_duration_seconds histogram');
+        expect(metrics).toContain(`sqlite_pool_query_duration_seconds_bucket{pool="${metricsDbPath}",le="+Inf"} 3`);
+        expect(metrics).toContain(`sqlite_pool_query_duration_seconds_count{pool="${metricsDbPath}"} 3`);
+        expect(metrics).toContain(`sqlite_pool_cache_hits_total{pool="${metricsDbPath}"} 1`);
+        expect(metrics).toContain(`sqlite_pool_connections{pool="${metricsDbPath}",state="active"} 0`);
+        expect(metrics.endsWith('\n')).toBe(true);
+        expect(DatabaseManager.getPoolMetrics({ prefix: 'app_db' })).toContain('# TYPE app_db_acquire_duration_seconds histogram');
+    });
+
+    test('should drop closed pools', async () => {
+        const other = new DatabaseManager({ dbPath: metricsDbPath, schema, usePool: true });
+        expect(Object.keys(DatabaseManager.getGlobalPoolStats())).toContain(`${metricsDbPath}#2`);
+
+        await other.closePool();
+        other.databaseInstance.close();
+        expect(Object.keys(DatabaseManager.getGlobalPoolStats())).not.toContain(`${metricsDbPath}#2`);
+    });
+});
+
+describe('Query Result Cache', () => {
+    const cacheDbPath = './test-cache.db';
+    const schema = defineSchema([
+        {
+            name: 'Shelves',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'label', type: 'string' }
+            ],
+            relations: {
+                books: { type: 'hasMany', table: 'Volumes', foreignKey: 'shelfId' }
+            }
+        },
+        {
+            name: 'Volumes',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'title', type: 'string' },
+                { name: 'shelfId', type: 'number', references: { table: 'Shelves', column: 'id', onDelete: 'CASCADE' } }
+            ]
+        }
+    ] as const);
+
+    let manager: DatabaseManager<typeof schema>;
+    let shelves: ReturnType<typeof manager.getTable<'Shelves'>>;
+    let volumes: ReturnType<typeof manager.getTable<'Volumes'>>;
+
+    beforeAll(() => {
+        manager = new DatabaseManager({ dbPath: cacheDbPath, schema, usePool: true });
+        manager.createTablesInDatabase();
+        shelves = manager.getTable('Shelves');
+        volumes = manager.getTable('Volumes');
+        shelves.insert([{ label: 'A' }, { label: 'B' }]);
+        volumes.insert([{ title: 'Dune', shelfId: 1 }, { title: 'Emma', shelfId: 2 }]);
+    });
+
+    afterAll(async () => {
+        await manager.closePool();
+        manager.databaseInstance.close();
+        [cacheDbPath, `${cacheDbPath}-wal`, `${cacheDbPath}-shm`].forEach(file => {
+            if (existsSync(file)) unlinkSync(file);
+        });
+    });
+
+    const hits = () => manager.getPoolStats()!.cacheHits;
+
+    test('should serve repeated reads from the cache', () => {
+        const before = hits();
+        const first = volumes.select({ where: { shelfId: 1 }, cache: { ttl: 60000 } });
+        first[0]!.title = 'Changed by caller';
+
+        const second = volumes.select({ where: { shelfId: 1 }, cache: { ttl: 60000 } });
+        expect(second).toEqual([{ id: 1, title: 'Dune', shelfId: 1 }]);
+        expect(volumes.count({ cache: { ttl: 60000 } })).toBe(2);
+        expect(volumes.count({ cache: { ttl: 60000 } })).toBe(2);
+        expect(hits() - before).toBe(2);
+
+        volumes.select({ where: { shelfId: 1 } });
+        expect(hits() - before).toBe(2);
+    });
+
+    test('should key cached selects by their include tree', () => {
+        const shelf = (include?: { books: true | { where: { title: string } } }) =>
+            shelves.select({ where: { id: 2 }, include, cache: { ttl: 60000 } })[0]!;
+        expect(shelf()).toEqual({ id: 2, label: 'B' });
+
+        const before = hits();
+        expect(shelf({ books: true }).books.map(book => book.title)).toEqual(['Emma']);
+        expect(shelf({ books: { where: { title: 'Dune' } } }).books).toEqual([]);
+        expect(hits() - before).toBe(0);
+
+        expect(shelf({ books: true }).books.map(book => book.title)).toEqual(['Emma']);
+        expect(shelf()).toEqual({ id: 2, label: 'B' });
+        expect(hits() - before).toBe(2);
+    });
+
+    test('should invalidate cached reads on writes to the table', () => {
+        const page = () => volumes.paginate({ page: 1, pageSize: 10, cache: { ttl: 60000 } });
+        const first = () => volumes.findFirst({ where: { shelfId: 2 }, cache: { ttl: 60000 } });
+        expect(page().total).toBe(2);
+        expect(first()?.title).toBe('Emma');
+
+        volumes.insert([{ title: 'Ulysses', shelfId: 2 }]);
+        expect(page().total).toBe(3);
+        expect(volumes.count({ cache: { ttl: 60000 } })).toBe(3);
+
+        volumes.update({ where: { id: 2 }, values: { title: 'Persuasion' } });
+        expect(first()?.title).toBe('Persuasion');
+
+        volumes.bulkInsert([{ title: 'Ivanhoe', shelfId: 1 }]);
+        expect(page().data.map(volume => volume.title)).toContain('Ivanhoe');
+
+        volumes.delete({ where: { title: 'Ivanhoe' } });
+        expect(page().total).toBe(3);
+    });
+
+    test('should keep entries of other tables and invalidate included and cascaded tables', () => {
+        const labels = () => shelves.select({ cache: { ttl: 60000 } }).map(shelf => shelf.label);
+        const withBooks = () => shelves.select({ where: { id: 1 }, include: { books: true }, cache: { ttl: 60000 } });
+        labels();
+        withBooks();
+
+        const before = hits();
+        volumes.upsert([{ id: 1, title: 'Dune Messiah', shelfId: 1 }], ['id']);
+        expect(labels()).toEqual(['A', 'B']);
+        expect(hits() - before).toBe(1);
+        expect(withBooks()[0]!.books.map(book => book.title)).toEqual(['Dune Messiah']);
+
+        const cachedVolumes = () => volumes.count({ where: { shelfId: 1 }, cache: { ttl: 60000 } });
+        expect(cachedVolumes()).toBe(1);
+        shelves.delete({ where: { id: 1 } });
+        expect(cachedVolumes()).toBe(0);
+    });
+
+    test('should invalidate cached reads on manager-level writes', () => {
+        const titles = () => volumes.select({ where: { shelfId: 2 }, orderBy: { column: 'id' }, cache: { ttl: 60000 } }).map(volume => volume.title);
+        const before = titles();
+
+        // Written through the Volumes table, so only the catch-all invalidation drops the Shelves read
+        const label = () => shelves.findFirst({ where: { id: 2 }, cache: { ttl: 60000 } })?.label;
+        expect(label()).toBe('B');
+        volumes.rawQuery("UPDATE Shelves SET label = 'Raw' WHERE id = 2");
+        expect(label()).toBe('Raw');
+
+        manager.executeTransaction(["UPDATE Volumes SET title = 'Batch' WHERE id = 2"]);
+        expect(titles()).toEqual(['Batch', ...before.slice(1)]);
+
+        manager.migrator([{
+            id: '0001_rename',
+            up: "UPDATE Volumes SET title = 'Migrated' WHERE id = 2",
+            down: "UPDATE Volumes SET title = 'Batch' WHERE id = 2"
+        }]).migrate();
+        expect(titles()).toEqual(['Migrated', ...before.slice(1)]);
+
+        manager.applySchemaDiff({ ...manager.diffSchema(), sql: ["UPDATE Volumes SET title = 'Diffed' WHERE id = 2"] });
+        expect(titles()).toEqual(['Diffed', ...before.slice(1)]);
+    });
+
+    test('should bypass the cache inside transactions and reject invalid ttls', () => {
+        const before = hits();
+        expect(() => manager.transaction(() => {
+            volumes.insert([{ title: 'Draft', shelfId: 2 }]);
+            expect(volumes.count({ where: { title: 'Draft' }, cache: { ttl: 60000 } })).toBe(1);
+            throw new Error('rollback');
+        })).toThrow('rollback');
+        expect(volumes.count({ where: { title: 'Draft' }, cache: { ttl: 60000 } })).toBe(0);
+        expect(hits()).toBe(before);
+
+        expect(() => volumes.select({ cache: { ttl: 0 } })).toThrow('Cache ttl must be a positive number of milliseconds');
+    });
+
+    test('should evict the least recently used entry', async () => {
+        const small = new DatabaseManager({ dbPath: cacheDbPath, schema, usePool: true, poolConfig: { maxCacheSize: 2 } });
+        const table = small.getTable('Volumes');
+        const read = (shelfId: number) => table.count({ where: { shelfId }, cache: { ttl: 60000 } });
+
+        read(1);
+        read(2);
+        read(1);
+        read(3);
+        const before = small.getPoolStats()!.cacheHits;
+        read(1);
+        expect(small.getPoolStats()!.cacheHits - before).toBe(1);
+        read(2);
+        expect(small.getPoolStats()!.cacheHits - before).toBe(1);
+
+        await small.closePool();
+        small.databaseInstance.close();
+    });
+});
+
+describe('Online Backup', () => {
+    const sourcePath = './test-online-backup.db';
+    const copyPath = './test-online-backup-copy.db';
+    const compressedPath = `${copyPath}.gz`;
+    const stopPath = './test-online-backup.stop';
+    const schema = defineSchema([
+        {
+            name: 'Entries',
+            columns: [
+                { name: 'id', type: 'number', primary: true, autoIncrement: true },
+                { name: 'body', type: 'string' }
+            ]
+        }
+    ] as const);
+
+    let manager: DatabaseManager<typeof schema>;
+    let entries: ReturnType<typeof manager.getTable<'Entries'>>;
+
+    beforeAll(() => {
+        manager = new DatabaseManager({ dbPath: sourcePath, schema });
+        manager.createTablesInDatabase();
+        manager.migrator([{ id: '0001_entries_index', up: 'CREATE INDEX idx_entries_body ON Entries (body)' }]).migrate();
+        entries = manager.getTable('Entries');
+        entries.bulkInsert(Array.from({ length: 500 }, (_, i) => ({ body: `entry ${i} ${'x'.repeat(100)}` })));
+    });
+
+    afterAll(() => {
+        manager.databaseInstance.close();
+        [sourcePath, `${sourcePath}-wal`, `${sourcePath}-shm`, copyPath, compressedPath,
+            `${copyPath}.manifest.json`, `${compressedPath}.manifest.json`, stopPath].forEach(file => {
+            if (existsSync(file)) unlinkSync(file);
+        });
+    });
+
+    test('should copy a consistent snapshot while writes continue', async () => {
+        let writes = 0;
+        const writer = setInterval(() => {
+            entries.insert([{ body: 'written during backup' }]);
+            writes++;
+        }, 1);
+
+        const manifest = await manager.backupOnline(copyPath, { pagesPerStep: 2, stepDelay: 2 }).finally(() => clearInterval(writer));
+
+        expect(writes).toBeGreaterThan(0);
+        expect(manifest.tables).toEqual({ Entries: 500, _migrations: 1 });
+        expect(manifest.schemaVersion).toBe('0001_entries_index');
+        expect(manifest.compressed).toBe(false);
+        expect(manifest.databaseBytes).toBe(manifest.pageSize * manifest.pageCount);
+
+        const written = await Bun.file(copyPath).bytes();
+        expect(manifest.fileBytes).toBe(written.length);
+        expect(manifest.sha256).toBe(new Bun.CryptoHasher('sha256').update(written).digest('hex'));
+        expect(await Bun.file(`${copyPath}.manifest.json`).json()).toEqual(manifest);
+
+        const copy = new Database(copyPath, { readonly: true });
+        expect(copy.prepare('PRAGMA integrity_check').get()).toEqual({ integrity_check: 'ok' });
+        expect(copy.prepare('SELECT COUNT(*) AS count FROM Entries').get()).toEqual({ count: 500 });
+        copy.close();
+    });
+
+    test('should back up while another process writes in a loop', async () => {
+        // A separate process keeps committing until the stop file appears, so the WAL is never found empty
+        const writer = Bun.spawn([process.execPath, '-e', `
+            const { existsSync } = require('fs');
+            const { Database } = require('bun:sqlite');
+            const db = new Database('${sourcePath}');
+            db.exec('PRAGMA busy_timeout = 5000');
+            const insert = db.prepare("INSERT INTO Entries (body) VALUES ('written by another process')");
+            insert.run();
+            console.log('ready');
+            for (let i = 0, end = Date.now() + 30000; Date.now() < end; i++) {
+                if (i % 100 === 0 && existsSync('${stopPath}')) break;
+                insert.run();
+            }
+        `], { stdout: 'pipe' });
+        await writer.stdout.getReader().read();
+
+        try {
+            const manifest = await manager.backupOnline(copyPath, { pagesPerStep: 8, snapshotTimeout: 100 });
+            expect(writer.exitCode).toBeNull();
+            await Bun.write(stopPath, '');
+            expect(await writer.exited).toBe(0);
+
+            const copy = new Database(copyPath, { readonly: true });
+            expect(copy.prepare('PRAGMA integrity_check').get()).toEqual({ integrity_check: 'ok' });
+            expect(copy.prepare('SELECT COUNT(*) AS count FROM Entries').get()).toEqual({ count: manifest.tables.Entries! });
+            expect(manifest.tables.Entries!).toBeGreaterThan(500);
+            copy.close();
+        } finally {
+            if (writer.exitCode === null) writer.kill();
+            await writer.exited;
+        }
+    }, 30000);
+
+    test('should stream compressed backups and report progress', async () => {
+        const progress: number[] = [];
+        let stopped = false;
+
+        const manifest = await manager.backupOnline(copyPath, {
+            compress: true,
+            pagesPerStep: 4,
+            ui: { progress: (_title, percentage) => progress.push(percentage), stopProgress: () => { stopped = true; } }
+        });
+
+        expect(manifest.file).toBe('test-online-backup-copy.db.gz');
+        expect(manifest.compressed).toBe(true);
+        expect(progress.length).toBe(Math.ceil(manifest.pageCount / 4));
+        expect(progress).toEqual([...progress].sort((a, b) => a - b));
+        expect(progress.at(-1)).toBe(100);
+        expect(stopped).toBe(true);
+
+        const compressed = await Bun.file(compressedPath).bytes();
+        expect(manifest.sha256).toBe(new Bun.CryptoHasher('sha256').update(compressed).digest('hex'));
+        expect(Bun.gunzipSync(compressed).length).toBe(manifest.databaseBytes);
+    });
+
+    test('should back up in-memory databases and reject invalid step sizes', async () => {
+        const memory = new DatabaseManager({ dbPath: ':memory:', schema });
+        memory.createTablesInDatabase();
+        memory.getTable('Entries').insert([{ body: 'in memory' }]);
+
+        const manifest = await memory.backupOnline(copyPath, { manifest: false });
+        expect(manifest.tables).toEqual({ Entries: 1 });
+
+        const copy = new Database(copyPath, { readonly: true });
+        expect(copy.prepare('SELECT body FROM Entries').all()).toEqual([{ body: 'in memory' }]);
+        copy.close();
+        memory.databaseInstance.close();
+
+        const error = await manager.backupOnline(copyPath, { pagesPerStep: 0 }).catch(error => error);
+        expect(error.message).toContain('pagesPerStep must be a positive integer');
+    });
+});
@@ -0,0 +1,133 @@
+"server only";
+
+import type { PoolStats } from "./class";
+
+/**
+ * Upper bounds (ms) of the latency histogram buckets, from sub-millisecond reads to slow maintenance queries
+ */
+export const LATENCY_BUCKETS_MS = [0.5, 1, 2.5, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000] as const;
+
+/**
+ * Point-in-time copy of a histogram
+ *
+ * @property buckets - Cumulative counts: observations lower than or equal to `le` (ms); the last bucket is `Infinity`
+ * @property sum - Sum of all observations (ms)
+ * @property count - Number of observations
+ */
+export interface HistogramSnapshot {
+  buckets: Array<{ le: number; count: number }>;
+  sum: number;
+  count: number;
+}
+
+/**
+ * Fixed-bucket latency histogram, cheap enough to observe on every query
+ */
+export class LatencyHistogram {
+  private readonly bounds: readonly number[];
+  private readonly counts: number[];
+  private sum = 0;
+  private count = 0;
+
+  constructor(bounds: readonly number[] = LATENCY_BUCKETS_MS) {
+    this.bounds = [...bounds, Infinity];
+    this.counts = this.bounds.map(() => 0);
+  }
+
+  observe(valueMs: number): void {
+    const index = this.bounds.findIndex(bound => valueMs <= bound);
+    this.counts[index]!++;
+    this.sum += valueMs;
+    this.count++;
+  }
+
+  snapshot(): HistogramSnapshot {
+    let cumulative = 0;
+    return {
+      buckets: this.bounds.map((le, index) => ({ le, count: cumulative += this.counts[index]! })),
+      sum: this.sum,
+      count: this.count,
+    };
+  }
+}
+
+type MetricType = "gauge" | "counter" | "histogram";
+
+/**
+ * Renders pool statistics in the Prometheus text exposition format (version 0.0.4)
+ * Every sample carries a `pool` label with the pool name; durations are exported in seconds.
+ *
+ * @param pools - Statistics keyed by pool name, as returned by `DatabaseManager.getGlobalPoolStats()`
+ * @param prefix - Metric name prefix (default: "sqlite_pool")
+ *
+ * @example
+ * ```typescript
+ * formatPrometheusMetrics({ "./app.sqlite": stats });
+ * // # HELP sqlite_pool_connections Open pooled connections by state
+ * // # TYPE sqlite_pool_connections gauge
+ * // sqlite_pool_connections{pool="./app.sqlite",state="active"} 1
+ * // ...
+ * ```
+ */
+export function formatPrometheusMetrics(pools: Record<string, PoolStats>, prefix: string = "sqlite_pool"): string {
+  const lines: string[] = [];
+  const entries = Object.entries(pools);
+
+  const metric = (name: string, type: MetricType, help: string, samples: (pool: string, stats: PoolStats) => string[]) => {
+    lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} ${type}`);
+    for (const [pool, stats] of entries) {
+      lines.push(...samples(pool, stats));
+    }
+  };
+  const sample = (name: string, labels: Record<string, string>, value: number) =>
+    `${prefix}_${name}{${Object.entries(labels).map(([key, label]) => `${key}="${escapeLabel(label)}"`).join(",")}} ${formatValue(value)}`;
+  const histogram = (name: string, pool: string, snapshot: HistogramSnapshot) => [
+    ...snapshot.buckets.map(bucket =>
+      sample(`${name}_bucket`, { pool, le: bucket.le === Infinity ? "+Inf" : formatValue(bucket.le / 1000) }, bucket.count)
+    ),
+    sample(`${name}_sum`, { pool }, snapshot.sum / 1000),
+    sample(`${name}_count`, { pool }, snapshot.count),
+  ];
+
+  metric("connections", "gauge", "Open pooled connections by state", (pool, stats) => [
+    sample("connections", { pool, state: "active" }, stats.activeConnections),
+    sample("connections", { pool, state: "idle" }, stats.idleConnections),
+  ]);
+  metric("waiting_clients", "gauge", "Clients waiting for a connection", (pool, stats) => [
+    sample("waiting_clients", { pool }, stats.waitingClients),
+  ]);
+  const counters = [
+    ["connections_created_total", "Connections opened", "totalCreated"],
+    ["connections_destroyed_total", "Connections closed", "totalDestroyed"],
+    ["acquired_total", "Connection acquisitions", "totalAcquired"],
+    ["released_total", "Connection releases", "totalReleased"],
+    ["errors_total", "Connection errors", "totalErrors"],
+    ["cache_hits_total", "Query cache hits", "cacheHits"],
+    ["cache_misses_total", "Query cache misses", "cacheMisses"],
+  ] as const;
+  for (const [name, help, key] of counters) {
+    metric(name, "counter", help, (pool, stats) => [sample(name, { pool }, stats[key])]);
+  }
+  metric("cache_hit_ratio", "gauge", "Share of query cache lookups served from the cache", (pool, stats) => [
+    sample("cache_hit_ratio", { pool }, stats.cacheHitRate),
+  ]);
+  metric("acquire_duration_seconds", "histogram", "Time spent waiting for a pooled connection", (pool, stats) =>
+    histogram("acquire_duration_seconds", pool, stats.acquireTime)
+  );
+  metric("query_duration_seconds", "histogram", "Latency of queries run on pooled connections", (pool, stats) =>
+    histogram("query_duration_seconds", pool, stats.queryLatency)
+  );
+
+  return `${lines.join("\n")}\n`;
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
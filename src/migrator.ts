@@ -0,0 +1,362 @@
+"server only";
+
+import type { Database as _BunDB } from "bun:sqlite";
+
+/**
+ * A single migration step: raw SQL (one or many statements) or a callback
+ * receiving the database handle for changes that need data transformations
+ */
+export type MigrationStep = string | string[] | ((db: _BunDB) => void);
+
+/**
+ * Versioned migration definition
+ *
+ * @property id - Unique, sortable identifier (e.g. "0001_create_users"); migrations run in ascending id order
+ * @property name - Human readable description (optional, defaults to the id)
+ * @property up - Step applied by `migrate()`
+ * @property down - Step applied by `rollback()` (optional, migrations without it cannot be rolled back)
+ */
+export interface Migration {
+  id: string;
+  name?: string;
+  up: MigrationStep;
+  down?: MigrationStep;
+}
+
+/**
+ * Status of a known or applied migration as reported by `Migrator.status()`
+ */
+export interface MigrationStatus {
+  id: string;
+  name: string;
+  applied: boolean;
+  appliedAt: Date | null;
+  checksum: string;
+  /** True when the applied checksum differs from the current migration definition */
+  checksumMismatch: boolean;
+  /** True when the migration is recorded in the ledger but no longer provided */
+  missing: boolean;
+}
+
+/**
+ * Outcome of a `migrate()` or `rollback()` run
+ */
+export interface MigrationRunResult {
+  direction: "up" | "down";
+  dryRun: boolean;
+  migrations: Array<{ id: string; name: string; statements: string[] }>;
+}
+
+type LedgerRow = { id: string; name: string; checksum: string; appliedAt: number };
+
+export const MIGRATIONS_TABLE = "_migrations";
+const UP_MARKER = /^--\s*migrate:up\s*$/im;
+const DOWN_MARKER = /^--\s*migrate:down\s*$/im;
+
+/**
+ * Versioned schema migration runner backed by a `_migrations` ledger table
+ *
+ * Each migration runs in its own transaction together with its ledger update,
+ * so a failing step leaves neither partial changes nor a ledger entry behind.
+ * Applied migrations are checksummed; editing one after it ran is reported by
+ * `status()` and refused by `migrate()`.
+ *
+ * @example
+ * ```typescript
+ * const migrator = dbManager.migrator([
+ *   {
+ *     id: "0001_create_users",
+ *     up: "CREATE TABLE users (id INTEGER PRIMARY KEY AUTOINCREMENT, email TEXT NOT NULL UNIQUE)",
+ *     down: "DROP TABLE users"
+ *   },
+ *   {
+ *     id: "0002_add_users_name",
+ *     up: "ALTER TABLE users ADD COLUMN name TEXT",
+ *     down: "ALTER TABLE users DROP COLUMN name"
+ *   }
+ * ]);
+ *
+ * migrator.migrate({ dryRun: true }); // Preview pending statements
+ * migrator.migrate();                 // Apply pending migrations
+ * migrator.rollback(1);               // Revert the last applied migration
+ * console.table(migrator.status());
+ * ```
+ */
+export class Migrator {
+  private readonly db: _BunDB;
+  private readonly migrations: Migration[];
+  private readonly onRun?: () => void;
+
+  /**
+   * @param options.onRun - Called after `migrate()` or `rollback()` ran steps, even when one failed
+   */
+  constructor(db: _BunDB, migrations: Migration[], options: { onRun?: () => void } = {}) {
+    const ids = new Set<string>();
+    for (const migration of migrations) {
+      if (!migration.id || migration.id.trim() === "") {
+        throw new Error("Migration id cannot be empty");
+      }
+      if (ids.has(migration.id)) {
+        throw new Error(`Duplicate migration id: ${migration.id}`);
+      }
+      ids.add(migration.id);
+    }
+
+    this.db = db;
+    this.migrations = [...migrations].sort((a, b) => a.id.localeCompare(b.id));
+    this.onRun = options.onRun;
+    this.ensureLedger();
+  }
+
+  /**
+   * Loads migrations from a directory of `.sql` files
+   * Files are ordered by name; the file name (without extension) is the migration id.
+   * Each file holds a `-- migrate:up` section and an optional `-- migrate:down` section.
+   *
+   * @example
+   * ```sql
+   * -- migrations/0001_create_posts.sql
+   * -- migrate:up
+   * CREATE TABLE posts (id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT NOT NULL);
+   * CREATE INDEX idx_posts_title ON posts(title);
+   *
+   * -- migrate:down
+   * DROP TABLE posts;
+   * ```
+   *
+   * @throws {Error} When the directory does not exist or a file has no up section
+   */
+  static loadFromDirectory(directory: string): Migration[] {
+    const fs = require('fs');
+    const path = require('path');
+
+    if (!fs.existsSync(directory)) {
+      throw new Error(`Migrations directory not found: ${directory}`);
+    }
+
+    const files = (fs.readdirSync(directory) as string[])
+      .filter(file => file.endsWith(".sql"))
+      .sort();
+
+    return files.map(file => {
+      const content = fs.readFileSync(path.join(directory, file), "utf8") as string;
+      const id = file.replace(/\.sql$/, "");
+      return { id, ...Migrator.parseSqlMigration(content, id) };
+    });
+  }
+
+  private static parseSqlMigration(content: string, id: string): Pick<Migration, "up" | "down"> {
+    const upMatch = UP_MARKER.exec(content);
+    if (!upMatch) {
+      throw new Error(`Migration '${id}' is missing a '-- migrate:up' section`);
+    }
+
+    const afterUp = content.slice(upMatch.index + upMatch[0].length);
+    const downMatch = DOWN_MARKER.exec(afterUp);
+
+    const up = (downMatch ? afterUp.slice(0, downMatch.index) : afterUp).trim();
+    const down = downMatch ? afterUp.slice(downMatch.index + downMatch[0].length).trim() : "";
+
+    return down ? { up, down } : { up };
+  }
+
+  /**
+   * Applies all pending migrations in order
+   *
+   * @param options.dryRun - Only return the plan, without touching the database (default: false)
+   * @param options.to - Stop after applying the migration with this id (optional)
+   * @returns The migrations that were (or would be) applied with their SQL statements
+   *
+   * @throws {Error} When an applied migration was modified, or a step fails (the failing migration is rolled back)
+   */
+  migrate(options: { dryRun?: boolean; to?: string } = {}): MigrationRunResult {
+    const { dryRun = false, to } = options;
+
+    const mismatched = this.status().filter(entry => entry.checksumMismatch);
+    if (mismatched.length > 0) {
+      throw new Error(
+        `Applied migrations were modified: ${mismatched.map(entry => entry.id).join(", ")}`
+      );
+    }
+
+    if (to && !this.migrations.some(migration => migration.id === to)) {
+      throw new Error(`Unknown migration: ${to}`);
+    }
+
+    const applied = new Set(this.getLedger().map(row => row.id));
+    const pending: Migration[] = [];
+    for (const migration of this.migrations) {
+      if (!applied.has(migration.id)) pending.push(migration);
+      if (migration.id === to) break;
+    }
+
+    const result: MigrationRunResult = {
+      direction: "up",
+      dryRun,
+      migrations: pending.map(migration => ({
+        id: migration.id,
+        name: migration.name ?? migration.id,
+        statements: this.describeStep(migration.up)
+      }))
+    };
+
+    if (dryRun) return result;
+
+    const insertStmt = this.db.prepare(
+      `INSERT INTO ${MIGRATIONS_TABLE} (id, name, checksum, appliedAt) VALUES (?, ?, ?, ?)`
+    );
+    try {
+      for (const migration of pending) {
+        this.runInTransaction(migration, "up", () => {
+          insertStmt.run(migration.id, migration.name ?? migration.id, this.checksum(migration), Date.now());
+        });
+      }
+    } finally {
+      insertStmt.finalize();
+      if (pending.length > 0) this.onRun?.();
+    }
+
+    return result;
+  }
+
+  /**
+   * Reverts the most recently applied migrations
+   *
+   * @param steps - Number of migrations to revert (default: 1)
+   * @param options.dryRun - Only return the plan, without touching the database (default: false)
+   * @returns The migrations that were (or would be) reverted with their SQL statements
+   *
+   * @throws {Error} When a migration to revert is unknown or has no down step, or a step fails
+   */
+  rollback(steps: number = 1, options: { dryRun?: boolean } = {}): MigrationRunResult {
+    const { dryRun = false } = options;
+
+    if (!Number.isInteger(steps) || steps < 1) {
+      throw new Error("Rollback steps must be a positive integer");
+    }
+
+    const toRevert = this.getLedger().reverse().slice(0, steps).map(row => {
+      const migration = this.migrations.find(m => m.id === row.id);
+      if (!migration) {
+        throw new Error(`Cannot roll back '${row.id}': migration definition not found`);
+      }
+      if (!migration.down) {
+        throw new Error(`Cannot roll back '${row.id}': migration has no down step`);
+      }
+      return migration as Migration & { down: MigrationStep };
+    });
+
+    const result: MigrationRunResult = {
+      direction: "down",
+      dryRun,
+      migrations: toRevert.map(migration => ({
+        id: migration.id,
+        name: migration.name ?? migration.id,
+        statements: this.describeStep(migration.down)
+      }))
+    };
+
+    if (dryRun) return result;
+
+    const deleteStmt = this.db.prepare(`DELETE FROM ${MIGRATIONS_TABLE} WHERE id = ?`);
+    try {
+      for (const migration of toRevert) {
+        this.runInTransaction(migration, "down", () => {
+          deleteStmt.run(migration.id);
+        });
+      }
+    } finally {
+      deleteStmt.finalize();
+      if (toRevert.length > 0) this.onRun?.();
+    }
+
+    return result;
+  }
+
+  /**
+   * Lists every known and applied migration with its state
+   * Entries recorded in the ledger but no longer provided are flagged as `missing`
+   */
+  status(): MigrationStatus[] {
+    const ledger = new Map(this.getLedger().map(row => [row.id, row]));
+
+    const known: MigrationStatus[] = this.migrations.map(migration => {
+      const row = ledger.get(migration.id);
+      const checksum = this.checksum(migration);
+      return {
+        id: migration.id,
+        name: migration.name ?? migration.id,
+        applied: !!row,
+        appliedAt: row ? new Date(row.appliedAt) : null,
+        checksum,
+        checksumMismatch: !!row && row.checksum !== checksum,
+        missing: false
+      };
+    });
+
+    const missing: MigrationStatus[] = [...ledger.values()]
+      .filter(row => !this.migrations.some(migration => migration.id === row.id))
+      .map(row => ({
+        id: row.id,
+        name: row.name,
+        applied: true,
+        appliedAt: new Date(row.appliedAt),
+        checksum: row.checksum,
+        checksumMismatch: false,
+        missing: true
+      }));
+
+    return [...known, ...missing].sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  private ensureLedger(): void {
+    this.db.exec(
+      `CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (` +
+      `id TEXT PRIMARY KEY, name TEXT NOT NULL, checksum TEXT NOT NULL, appliedAt INTEGER NOT NULL)`
+    );
+  }
+
+  private getLedger(): LedgerRow[] {
+    return this.db.prepare(
+      `SELECT id, name, checksum, appliedAt FROM ${MIGRATIONS_TABLE} ORDER BY id ASC`
+    ).all() as LedgerRow[];
+  }
+
+  private runInTransaction(migration: Migration, direction: "up" | "down", recordLedger: () => void): void {
+    const step = direction === "up" ? migration.up : migration.down!;
+    const transaction = this.db.transaction(() => {
+      this.executeStep(step);
+      recordLedger();
+    });
+
+    try {
+      transaction();
+    } catch (error) {
+      throw new Error(`Migration '${migration.id}' (${direction}) failed: ${error}`);
+    }
+  }
+
+  private executeStep(step: MigrationStep): void {
+    if (typeof step === "function") {
+      step(this.db);
+      return;
+    }
+    for (const statement of Array.isArray(step) ? step : [step]) {
+      this.db.exec(statement);
+    }
+  }
+
+  private describeStep(step: MigrationStep): string[] {
+    if (typeof step === "function") return ["-- <function step>"];
+    return Array.isArray(step) ? step : [step];
+  }
+
+  private checksum(migration: Migration): string {
+    const serialize = (step?: MigrationStep) =>
+      step === undefined ? "" : typeof step === "function" ? step.toString() : ([] as string[]).concat(step).join("\n");
+
+    return new Bun.CryptoHasher("sha256")
+      .update(`${serialize(migration.up)}\n-- down --\n${serialize(migration.down)}`)
+      .digest("hex");
+  }
+}
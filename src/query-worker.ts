@@ -0,0 +1,67 @@
+"server only";
+
+/**
+ * Worker entry of a `WorkerPool` connection
+ * Holds one read-only bun:sqlite connection and answers the requests of the main thread in order.
+ */
+
+import { Database as _BunDB } from "bun:sqlite";
+import type { WorkerRequest, WorkerResponse } from "./worker-pool";
+
+declare var self: Worker;
+
+let database: _BunDB | undefined;
+let maxStatements = 100;
+const statements = new Map<string, ReturnType<_BunDB["prepare"]>>();
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  let response: WorkerResponse;
+  try {
+    response = { id: request.id, result: handle(request) };
+  } catch (error) {
+    const { name = "Error", message = String(error) } = error as Partial<Error>;
+    response = { id: request.id, error: { name, message } };
+  }
+  self.postMessage(response);
+};
+
+function handle(request: WorkerRequest): unknown {
+  if (request.type === "open") {
+    database = new _BunDB(request.dbPath, { create: false, strict: true });
+    database.exec("PRAGMA busy_timeout = 5000;");
+    database.exec("PRAGMA query_only = ON;");
+    maxStatements = request.maxStatements;
+    return null;
+  }
+
+  if (!database) {
+    throw new Error("Query worker has no open database");
+  }
+
+  switch (request.type) {
+    case "query":
+      return prepare(request.sql).all(...request.params);
+    case "close":
+      statements.forEach(statement => statement.finalize());
+      statements.clear();
+      database.close();
+      database = undefined;
+      return null;
+  }
+}
+
+// Same most-recently-used statement cache as the main thread pool connections
+function prepare(sql: string): ReturnType<_BunDB["prepare"]> {
+  let statement = statements.get(sql);
+  if (statement) {
+    statements.delete(sql);
+  } else {
+    statement = database!.prepare(sql);
+    if (statements.size >= maxStatements) {
+      statements.delete(statements.keys().next().value!);
+    }
+  }
+  statements.set(sql, statement);
+  return statement;
+}
@@ -364,10 +364,119 @@ export type DBSchema = TableSchema[];
  * @interface TableSchema
  * @property name - The table name (will be capitalized in the Database() function)
  * @property columns - Array of column definitions for the table
+ * @property indexes - Secondary indexes created alongside the table (optional)
+ * @property relations - Named relations to other tables, loadable with `select({ include })` (optional)
+ * @property softDelete - Nullable Date column marking deleted rows; `delete()` sets it instead of removing rows (optional)
+ * @property fullText - String columns indexed in an FTS5 table, queried with `search()` (optional)
  */
 export interface TableSchema {
   readonly name: string;
   readonly columns: readonly ColumnsSchema[] | ColumnsSchema[];
+  readonly indexes?: readonly IndexSchema[] | IndexSchema[];
+  readonly relations?: { readonly [name: string]: RelationSchema };
+  readonly softDelete?: { readonly column: string };
+  readonly fullText?: FullTextSchema;
+}
+
+/**
+ * Full-text index of a table, kept in an external-content FTS5 table named `<table>_fts`
+ * The table needs a number primary key, used as the FTS rowid.
+ *
+ * @property columns - String columns to index, in FTS column order
+ * @property tokenizer - FTS5 tokenizer specification (optional, e.g. "porter unicode61")
+ *
+ * @example
+ * ```typescript
+ * fullText: { columns: ["title", "body"], tokenizer: "porter unicode61" }
+ * ```
+ */
+export interface FullTextSchema {
+  readonly columns: readonly string[] | string[];
+  readonly tokenizer?: string;
+}
+
+/**
+ * Relation from a table to another table of the schema
+ * 
+ * - `hasMany`: rows of `table` whose `foreignKey` equals this table's `localKey` (default: "id")
+ * - `belongsTo`: the row of `table` whose `ownerKey` (default: "id") equals this table's `foreignKey`
+ * - `manyToMany`: rows of `table` linked through the `through` join table, where `through.sourceKey`
+ *   points at this table's `localKey` and `through.targetKey` at the target's `targetKey` (both default: "id")
+ * 
+ * @example
+ * ```typescript
+ * {
+ *   name: "Users",
+ *   columns: [...],
+ *   relations: {
+ *     posts: { type: "hasMany", table: "Posts", foreignKey: "userId" }
+ *   }
+ * },
+ * {
+ *   name: "Posts",
+ *   columns: [...],
+ *   relations: {
+ *     author: { type: "belongsTo", table: "Users", foreignKey: "userId" },
+ *     tags: { type: "manyToMany", table: "Tags", through: { table: "PostTags", sourceKey: "postId", targetKey: "tagId" } }
+ *   }
+ * }
+ * ```
+ */
+export type RelationSchema =
+  | {
+    readonly type: "hasMany";
+    readonly table: string;
+    readonly foreignKey: string;
+    readonly localKey?: string;
+  }
+  | {
+    readonly type: "belongsTo";
+    readonly table: string;
+    readonly foreignKey: string;
+    readonly ownerKey?: string;
+  }
+  | {
+    readonly type: "manyToMany";
+    readonly table: string;
+    readonly through: {
+      readonly table: string;
+      readonly sourceKey: string;
+      readonly targetKey: string;
+    };
+    readonly localKey?: string;
+    readonly targetKey?: string;
+  };
+
+/**
+ * Secondary index definition for a table
+ * 
+ * @property name - Unique index name
+ * @property columns - Indexed column names or JSON paths of json columns, in order
+ * @property unique - Create a UNIQUE index (optional, default: false)
+ * 
+ * @example
+ * ```typescript
+ * { name: "idx_users_role_created", columns: ["role", "createdAt"] }
+ * 
+ * // Indexes json_extract(profile, '$.settings.theme'), used by JSON path filters on the same path
+ * { name: "idx_users_theme", columns: [{ column: "profile", path: ["settings", "theme"] }] }
+ * ```
+ */
+export interface IndexSchema {
+  readonly name: string;
+  readonly columns: readonly (string | JsonIndexPath)[] | (string | JsonIndexPath)[];
+  readonly unique?: true;
+}
+
+/**
+ * Value inside a json column used as an index key
+ * 
+ * @property column - The json column
+ * @property path - Object keys and array positions leading to the value
+ */
+export interface JsonIndexPath {
+  readonly column: string;
+  readonly path: readonly (string | number)[];
 }
 
 /**
@@ -390,6 +499,13 @@ export interface TableSchema {
  * { name: "createdAt", type: "Date" }
  * { name: "price", type: "float", default: 0.00 }
  * 
+ * // Timestamps filled in by insert / upsert / update
+ * { name: "createdAt", type: "Date", autoCreateTime: true }
+ * { name: "updatedAt", type: "Date", autoUpdateTime: true }
+ * 
+ * // Optimistic locking counter
+ * { name: "version", type: "number", version: true }
+ * 
  * // Union constraints (enum-like)
  * { name: "status", type: "string", union: ["active", "inactive", "pending"] }
  * { name: "rating", type: "number", union: [1, 2, 3, 4, 5] }
@@ -416,6 +532,8 @@ export type ColumnsSchema =
     default?: number;
     /**  */
     union?: number[];
+    /** Optimistic lock counter: starts at 1 and is checked and incremented by `update` / `upsert` */
+    version?: true;
   } & common)
   | ({
     type: "string";
@@ -426,6 +544,10 @@ export type ColumnsSchema =
   | ({
     type: "Date";
     default?: Date;
+    /** Set to the current time on insert when no value is given */
+    autoCreateTime?: true;
+    /** Set to the current time on insert and on every update when no value is given */
+    autoUpdateTime?: true;
   } & common)
   | ({
     type: "json";
@@ -519,6 +641,31 @@ type ReservedType<T extends string | number = string | number> = {
 };
 const ReservedTypeKeys = ["!union_type!"];
 
+/**
+ * Action applied to referencing rows when the referenced row is deleted or updated
+ */
+export type ForeignKeyAction = "CASCADE" | "SET NULL" | "SET DEFAULT" | "RESTRICT" | "NO ACTION";
+
+/**
+ * Foreign key reference to a column of another table in the same schema
+ * 
+ * @property table - Name of the referenced table
+ * @property column - Name of the referenced column
+ * @property onDelete - Action when the referenced row is deleted (optional, default: NO ACTION)
+ * @property onUpdate - Action when the referenced key is updated (optional, default: NO ACTION)
+ * 
+ * @example
+ * ```typescript
+ * { name: "userId", type: "number", references: { table: "users", column: "id", onDelete: "CASCADE" } }
+ * ```
+ */
+export type ColumnReference = {
+  table: string;
+  column: string;
+  onDelete?: ForeignKeyAction;
+  onUpdate?: ForeignKeyAction;
+};
+
 /**
  * Common column properties shared across all column types
  * 
@@ -526,8 +673,9 @@ const ReservedTypeKeys = ["!union_type!"];
  * @property nullable - Allow NULL values (optional, default: false)
  * @property unique - Enforce unique constraint (optional, default: false)  
  * @property primary - Mark as primary key (optional, default: false)
+ * @property references - Foreign key to another table's column (optional)
  */
-type common = { name: string; nullable?: true; unique?: true; primary?: true };
+type common = { name: string; nullable?: true; unique?: true; primary?: true; references?: ColumnReference };
 
 /**
  * Convert a DBSchema to a type mapping table names to their respective row types
@@ -575,32 +723,67 @@ type common = { name: string; nullable?: true; unique?: true; primary?: true };
  * ```
  */
 export type DBSchemaToTableTypes<T extends readonly TableSchema[]> = {
-  [K in T[number]as K['name']]: SchemaToRowType<K['columns']>
+  [K in T[number]as K['name']]: SchemaToRowType<K['columns'], T>
+};
+
+/**
+ * Maps every table name of a schema to its declared relations
+ */
+export type DBSchemaToRelations<T extends readonly TableSchema[]> = {
+  [K in T[number]as K['name']]: K extends { relations: infer R extends Record<string, RelationSchema> } ? R : {}
 };
 
 /**
  * Convert a single table's column schema to its row type
  * Used internally by DBSchemaToTableTypes
  */
-type SchemaToRowType<T extends readonly ColumnsSchema[]> = {
-  [K in T[number]as IsOptionalColumn<K> extends true ? never : K['name']]: K extends { nullable: true }
-  ? ColumnToType<K> | null
-  : ColumnToType<K>
+type SchemaToRowType<T extends readonly ColumnsSchema[], S extends readonly TableSchema[] = readonly TableSchema[]> = {
+  [K in T[number]as IsOptionalColumn<K> extends true ? never : K['name']]: CheckReference<K, S, K extends { nullable: true }
+    ? ColumnToType<K> | null
+    : ColumnToType<K>>
 } & {
-  [K in T[number]as IsOptionalColumn<K> extends true ? K['name'] : never]?: K extends { nullable: true }
-  ? ColumnToType<K> | null
-  : ColumnToType<K>
+  [K in T[number]as IsOptionalColumn<K> extends true ? K['name'] : never]?: CheckReference<K, S, K extends { nullable: true }
+    ? ColumnToType<K> | null
+    : ColumnToType<K>>
 };
 
+/**
+ * Validates a column's foreign key against the schema
+ * Resolves to the column type when the reference is valid, otherwise to a
+ * descriptive error string so that any usage of the column fails to compile
+ */
+type CheckReference<K extends ColumnsSchema, S extends readonly TableSchema[], V> =
+  K extends { references: infer R }
+  ? [ReferenceError<R, S>] extends [never]
+  ? V
+  : ReferenceError<R, S>
+  : V;
+
+/**
+ * Error message for a reference whose target table or column is not declared in the schema
+ */
+type ReferenceError<R, S extends readonly TableSchema[]> =
+  R extends { table: infer TName extends string; column: infer CName extends string }
+  ? [Extract<S[number], { name: TName }>] extends [never]
+  ? `Invalid reference: table "${TName}" is not defined in the schema`
+  : CName extends Extract<S[number], { name: TName }>['columns'][number]['name']
+  ? never
+  : `Invalid reference: column "${CName}" does not exist on table "${TName}"`
+  : never;
+
 /**
  * Helper type to determine if a column should be optional
- * A column is optional if it has autoIncrement or a default value
+ * A column is optional if it has autoIncrement, a default value or an automatic timestamp
  */
 type IsOptionalColumn<T extends ColumnsSchema> =
   T extends { autoIncrement: true }
   ? true
   : T extends { default: any }
   ? true
+  : T extends { autoCreateTime: true } | { autoUpdateTime: true }
+  ? true
+  : T extends { version: true }
+  ? true
   : false;
 
 /**
@@ -860,9 +1043,13 @@ function ColumnsSchemaToType(
   defaultAsOptional: boolean
 ) {
   let autoIncrement = false;
+  let autoTime = false;
   let dataType = "";
   if (column.type == "number") {
-    autoIncrement = column.autoIncrement ? true : false;
+    autoIncrement = column.autoIncrement || column.version ? true : false;
+  }
+  if (column.type == "Date") {
+    autoTime = column.autoCreateTime || column.autoUpdateTime ? true : false;
   }
   switch (column.type) {
     case "string":
@@ -886,7 +1073,7 @@ function ColumnsSchemaToType(
       dataType = dataTypeToType(column.DataType);
       break;
   }
-  return `"${column.name}"${column.nullable || autoIncrement || (column?.default && defaultAsOptional)
+  return `"${column.name}"${column.nullable || autoIncrement || ((column?.default || autoTime) && defaultAsOptional)
     ? "?"
     : ""
     }: ${dataType};`;
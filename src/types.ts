@@ -14,12 +14,14 @@ export interface DatabaseConfig {
 }
 
 export interface BackupOptions {
-    /** Whether to compress the backup file */
+    /** Whether to compress the backup file (`.gz` is appended to the path when missing) */
     compress?: boolean;
     /** Whether to include table data or schema only */
     includeData?: boolean;
     /** Custom backup format */
     format?: 'sql' | 'json' | 'binary';
+    /** Receives the progress of the copy */
+    ui?: Pick<UserInterface, 'progress' | 'stopProgress'>;
 }
 
 export interface RestoreOptions {
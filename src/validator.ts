@@ -0,0 +1,271 @@
+"server only";
+
+import type { ColumnsSchema, _DataType } from "./schema";
+
+/**
+ * How a `Table` reacts to records that do not match its schema
+ *
+ * - `strict`: throw a `ValidationError` before anything is written
+ * - `warn` (default): log the issues and write anyway
+ * - `off`: skip validation
+ */
+export type ValidationMode = "strict" | "warn" | "off";
+
+export type ValidationIssueCode =
+  | "required"
+  | "not_nullable"
+  | "invalid_type"
+  | "invalid_value"
+  | "unknown_column";
+
+/**
+ * Field-level problem found while validating a record
+ *
+ * @property index - Position of the record in the written batch (0 for update values)
+ * @property field - Column name, followed by the path inside JSON values (e.g. "profile.tags[1]")
+ * @property code - Machine readable issue kind
+ * @property message - Human readable description
+ * @property received - The offending value
+ */
+export interface ValidationIssue {
+  index: number;
+  field: string;
+  code: ValidationIssueCode;
+  message: string;
+  received: unknown;
+}
+
+/**
+ * Thrown by write operations in `strict` mode when records do not match the schema
+ * All issues of the batch are collected before throwing.
+ */
+export class ValidationError extends Error {
+  readonly table: string;
+  readonly issues: ValidationIssue[];
+
+  constructor(table: string, issues: ValidationIssue[]) {
+    const preview = issues.slice(0, 5).map(issue => `[${issue.index}] ${issue.field}: ${issue.message}`).join("; ");
+    const more = issues.length > 5 ? ` (+${issues.length - 5} more)` : "";
+    super(`Validation failed for table '${table}': ${preview}${more}`);
+    this.name = "ValidationError";
+    this.table = table;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Validates one record; `partial` skips required checks (used for update values)
+ */
+export type RecordValidator = (
+  record: Record<string, unknown>,
+  options: { partial: boolean; index: number }
+) => ValidationIssue[];
+
+type Issue = Omit<ValidationIssue, "index">;
+type ValueCheck = (value: unknown, path: string, issues: Issue[]) => void;
+
+const UNION_KEY = "!union_type!";
+const INTERSECTION_KEY = "!intersection_type!";
+
+/**
+ * Compiles a validator for a table from its column definitions
+ * Column and JSON `DataType` checks are built once, so validating a record only runs closures.
+ *
+ * @example
+ * ```typescript
+ * const validate = compileValidator(schema[0].columns);
+ * const issues = validate({ email: 42 }, { partial: false, index: 0 });
+ * // [{ index: 0, field: "email", code: "invalid_type", message: "Expected string, received number", received: 42 }]
+ * ```
+ */
+export function compileValidator(columns: readonly ColumnsSchema[]): RecordValidator {
+  const checks = new Map<string, { column: ColumnsSchema; check: ValueCheck }>(
+    columns.map(column => [column.name, { column, check: compileColumnCheck(column) }])
+  );
+  const required = columns.filter(column =>
+    !column.nullable && column.default === undefined &&
+    !("autoIncrement" in column && column.autoIncrement) && !("version" in column && column.version)
+  );
+
+  return (record, { partial, index }) => {
+    const issues: Issue[] = [];
+
+    for (const [name, value] of Object.entries(record)) {
+      const entry = checks.get(name);
+      if (!entry) {
+        issues.push({ field: name, code: "unknown_column", message: "Column is not defined in the schema", received: value });
+        continue;
+      }
+      if (value === undefined) continue;
+      if (value === null) {
+        const autoIncrement = "autoIncrement" in entry.column && entry.column.autoIncrement;
+        if (!entry.column.nullable && !autoIncrement) {
+          issues.push({ field: name, code: "not_nullable", message: "Column is not nullable", received: value });
+        }
+        continue;
+      }
+      entry.check(value, name, issues);
+    }
+
+    if (!partial) {
+      for (const column of required) {
+        if (record[column.name] === undefined) {
+          issues.push({ field: column.name, code: "required", message: "Missing required column", received: undefined });
+        }
+      }
+    }
+
+    return issues.map(issue => ({ index, ...issue }));
+  };
+}
+
+function compileColumnCheck(column: ColumnsSchema): ValueCheck {
+  switch (column.type) {
+    case "string":
+      return withUnion(primitiveCheck("string"), column.union);
+    case "number":
+    case "float":
+      return withUnion(primitiveCheck("number"), column.union);
+    case "boolean":
+      return primitiveCheck("boolean");
+    case "Date":
+      return (value, path, issues) => {
+        if (!(value instanceof Date) || Number.isNaN(value.getTime())) {
+          issues.push({ field: path, code: "invalid_type", message: `Expected Date, received ${describeValue(value)}`, received: value });
+        }
+      };
+    case "json":
+      return compileDataTypeCheck(column.DataType);
+  }
+}
+
+function withUnion(check: ValueCheck, union?: readonly (string | number)[]): ValueCheck {
+  if (!union) return check;
+  return (value, path, issues) => {
+    const before = issues.length;
+    check(value, path, issues);
+    if (issues.length === before && !union.includes(value as string | number)) {
+      issues.push({ field: path, code: "invalid_value", message: `Expected one of ${formatUnion(union)}`, received: value });
+    }
+  };
+}
+
+function primitiveCheck(type: "string" | "number" | "boolean"): ValueCheck {
+  return (value, path, issues) => {
+    const valid = type === "number"
+      ? typeof value === "number" && Number.isFinite(value)
+      : typeof value === type;
+    if (!valid) {
+      issues.push({ field: path, code: "invalid_type", message: `Expected ${type}, received ${describeValue(value)}`, received: value });
+    }
+  };
+}
+
+/**
+ * Mirrors the type generation of `JSONDataTypeToType`: primitives, arrays of alternatives,
+ * nested objects and the `Union` / `Intersection` reserved types
+ */
+function compileDataTypeCheck(dataType: _DataType | string): ValueCheck {
+  if (typeof dataType === "string") {
+    switch (dataType) {
+      case "string":
+      case "boolean":
+        return primitiveCheck(dataType);
+      case "number":
+      case "float":
+        return primitiveCheck("number");
+      case "undefined":
+        return (value, path, issues) => {
+          if (value !== undefined) {
+            issues.push({ field: path, code: "invalid_type", message: `Expected undefined, received ${describeValue(value)}`, received: value });
+          }
+        };
+      default:
+        return () => { };
+    }
+  }
+
+  if (Array.isArray(dataType)) {
+    const alternatives = dataType.map(entry => compileDataTypeCheck(entry as _DataType | string));
+    const expected = `Array<${dataType.map(describeDataType).join(" | ")}>`;
+    return (value, path, issues) => {
+      if (!Array.isArray(value)) {
+        issues.push({ field: path, code: "invalid_type", message: `Expected ${expected}, received ${describeValue(value)}`, received: value });
+        return;
+      }
+      if (alternatives.length === 0) return;
+      value.forEach((element, i) => {
+        const matches = alternatives.some(check => {
+          const attempt: Issue[] = [];
+          check(element, path, attempt);
+          return attempt.length === 0;
+        });
+        if (!matches) {
+          issues.push({ field: `${path}[${i}]`, code: "invalid_type", message: `Expected ${expected}, received ${describeValue(element)}`, received: element });
+        }
+      });
+    };
+  }
+
+  const record = dataType as Record<string, unknown>;
+  if (UNION_KEY in record) {
+    const union = record[UNION_KEY] as (string | number)[];
+    return (value, path, issues) => {
+      if (!union.includes(value as string | number)) {
+        issues.push({ field: path, code: "invalid_value", message: `Expected one of ${formatUnion(union)}`, received: value });
+      }
+    };
+  }
+  if (INTERSECTION_KEY in record) {
+    return primitiveCheck("string");
+  }
+
+  const properties = Object.entries(record).map(([key, propertyType]) => ({
+    key,
+    optional: isOptionalDataType(propertyType),
+    check: compileDataTypeCheck(propertyType as _DataType | string),
+  }));
+
+  return (value, path, issues) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      issues.push({ field: path, code: "invalid_type", message: `Expected object, received ${describeValue(value)}`, received: value });
+      return;
+    }
+    for (const { key, optional, check } of properties) {
+      const propertyValue = (value as Record<string, unknown>)[key];
+      if (propertyValue === undefined) {
+        if (!optional) {
+          issues.push({ field: `${path}.${key}`, code: "required", message: "Missing required property", received: undefined });
+        }
+        continue;
+      }
+      check(propertyValue, `${path}.${key}`, issues);
+    }
+  };
+}
+
+// A JSON property may be omitted when its type is "undefined" or an array listing "undefined"
+function isOptionalDataType(dataType: unknown): boolean {
+  return dataType === "undefined" || (Array.isArray(dataType) && dataType.includes("undefined"));
+}
+
+function describeDataType(dataType: unknown): string {
+  if (typeof dataType === "string") return dataType === "float" ? "number" : dataType;
+  if (Array.isArray(dataType)) return `Array<${dataType.map(describeDataType).join(" | ")}>`;
+  if (dataType && typeof dataType === "object" && UNION_KEY in dataType) {
+    return formatUnion((dataType as Record<string, (string | number)[]>)[UNION_KEY]!);
+  }
+  return "object";
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? "invalid Date" : "Date";
+  if (typeof value === "number" && !Number.isFinite(value)) return String(value);
+  return typeof value;
+}
+
+function formatUnion(values: readonly (string | number)[]): string {
+  return values.map(value => typeof value === "string" ? `"${value}"` : String(value)).join(" | ");
+}
@@ -0,0 +1,182 @@
+"server only";
+
+/**
+ * Value bound to a `?` placeholder of a worker statement
+ */
+export type WorkerParameter = string | number | null;
+
+export type WorkerRequest =
+  | { id: number; type: "open"; dbPath: string; maxStatements: number }
+  | { id: number; type: "query"; sql: string; params: WorkerParameter[] }
+  | { id: number; type: "close" };
+
+export type WorkerResponse =
+  | { id: number; result: unknown }
+  | { id: number; error: { name: string; message: string } };
+
+type DistributiveOmit<T, K extends keyof any> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * One read-only database connection living in a Bun Worker
+ * Requests are answered in order; the worker only keeps the process alive while requests are pending.
+ */
+class QueryWorker {
+  private readonly worker: Bun.Worker;
+  private readonly onQuery?: (durationMs: number) => void;
+  private readonly pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+  private nextId = 0;
+  private closed = false;
+
+  constructor(dbPath: string, maxStatements: number, onQuery?: (durationMs: number) => void) {
+    this.onQuery = onQuery;
+    this.worker = new Worker(new URL("./query-worker.ts", import.meta.url).href) as unknown as Bun.Worker;
+    this.worker.addEventListener("message", event => this.settle((event as MessageEvent<WorkerResponse>).data));
+    this.worker.addEventListener("error", event => {
+      event.preventDefault();
+      // A crashed worker answers nothing more: stop it so later requests reject instead of hanging
+      this.closed = true;
+      this.worker.terminate();
+      this.failPending(new Error(`Query worker failed: ${(event as ErrorEvent).message}`));
+    });
+    this.worker.unref();
+    this.request({ type: "open", dbPath, maxStatements }).catch(() => {
+      // Reported again by every request sent to a worker that could not open the database
+    });
+  }
+
+  get load(): number {
+    return this.pending.size;
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  request<R>(message: DistributiveOmit<WorkerRequest, "id">): Promise<R> {
+    if (this.closed) {
+      return Promise.reject(new Error("Query worker is closed"));
+    }
+    const id = ++this.nextId;
+    const timed = message.type === "query";
+    const startedAt = performance.now();
+    return new Promise<R>((resolve, reject) => {
+      if (this.pending.size === 0) this.worker.ref();
+      this.pending.set(id, { resolve: resolve as (value: unknown) => void, reject });
+      this.worker.postMessage({ ...message, id } as WorkerRequest);
+    }).finally(() => {
+      if (timed) this.onQuery?.(performance.now() - startedAt);
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    try {
+      await this.request({ type: "close" });
+    } finally {
+      this.closed = true;
+      this.worker.terminate();
+      this.failPending(new Error("Query worker is closed"));
+    }
+  }
+
+  private settle(response: WorkerResponse): void {
+    const entry = this.pending.get(response.id);
+    if (!entry) return;
+    this.pending.delete(response.id);
+    if (this.pending.size === 0) this.worker.unref();
+
+    if ("error" in response) {
+      // Keep the SQLite error name (e.g. SQLiteError) so callers can tell constraint failures apart
+      const error = new Error(response.error.message);
+      error.name = response.error.name;
+      entry.reject(error);
+    } else {
+      entry.resolve(response.result);
+    }
+  }
+
+  private failPending(error: Error): void {
+    for (const entry of this.pending.values()) {
+      entry.reject(error);
+    }
+    this.pending.clear();
+    this.worker.unref();
+  }
+}
+
+/**
+ * Worker-backed connections of a pooled DatabaseManager in async mode
+ *
+ * Workers only read: writes stay on the DatabaseManager's connection, SQLite's single writer.
+ * Reads go to the least busy reader worker, a new one being started while all are busy and
+ * fewer than `maxReaders` run; a reader that crashes rejects its pending queries and is
+ * replaced on the next read. Readers are opened `query_only` and rely on WAL mode to read
+ * while the writer works. Rows cross the worker boundary as stored SQLite values; the `Table`
+ * restores Dates, booleans and JSON on the main thread.
+ *
+ * @example
+ * ```typescript
+ * const workers = new WorkerPool("./app.sqlite", { maxReaders: 4 });
+ * const rows = await workers.read("SELECT * FROM users WHERE id = ?", [1]);
+ * await workers.close();
+ * ```
+ */
+export class WorkerPool {
+  private readonly dbPath: string;
+  private readonly maxReaders: number;
+  private readonly maxStatements: number;
+  private readonly onQuery?: (durationMs: number) => void;
+  private readonly readers: QueryWorker[] = [];
+
+  /**
+   * @param options.maxReaders - Maximum number of reader workers
+   * @param options.maxStatements - Prepared statements cached per worker connection
+   * @param options.onQuery - Called with the round-trip time (ms) of every query
+   */
+  constructor(dbPath: string, options: { maxReaders: number; maxStatements: number; onQuery?: (durationMs: number) => void }) {
+    if (options.maxReaders < 1) {
+      throw new Error("Worker pool needs at least one reader");
+    }
+    this.dbPath = dbPath;
+    this.maxReaders = options.maxReaders;
+    this.maxStatements = options.maxStatements;
+    this.onQuery = options.onQuery;
+  }
+
+  /**
+   * Number of worker threads currently running
+   */
+  get size(): number {
+    return this.readers.length;
+  }
+
+  /**
+   * Runs a read-only query on a reader worker and returns its raw rows
+   */
+  read(sql: string, params: WorkerParameter[]): Promise<Record<string, unknown>[]> {
+    return this.nextReader().request({ type: "query", sql, params });
+  }
+
+  async close(): Promise<void> {
+    const workers = [...this.readers];
+    this.readers.length = 0;
+    await Promise.allSettled(workers.map(worker => worker.close()));
+  }
+
+  private nextReader(): QueryWorker {
+    // Failed workers are dropped, their place going to a fresh one
+    for (let i = this.readers.length - 1; i >= 0; i--) {
+      if (this.readers[i]!.isClosed) this.readers.splice(i, 1);
+    }
+
+    const idle = this.readers.find(reader => reader.load === 0);
+    if (idle) return idle;
+
+    if (this.readers.length < this.maxReaders) {
+      const reader = new QueryWorker(this.dbPath, this.maxStatements, this.onQuery);
+      this.readers.push(reader);
+      return reader;
+    }
+    return this.readers.reduce((least, reader) => reader.load < least.load ? reader : least);
+  }
+}